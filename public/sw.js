@@ -0,0 +1,35 @@
+// Service worker for Web Push notifications. Served from the site root so its
+// scope covers the whole app.
+
+self.addEventListener('push', (event) => {
+  let message = { title: 'LectureHub', body: '', url: '/dashboard' };
+  try {
+    message = { ...message, ...event.data.json() };
+  } catch {
+    if (event.data) message.body = event.data.text();
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      tag: message.tag,
+      data: { url: message.url },
+    })
+  );
+});
+
+// Focus an open tab on the linked page rather than opening another one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/dashboard', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => new URL(c.url).origin === self.location.origin);
+      if (client) {
+        return client.navigate(url).then((navigated) => (navigated || client).focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
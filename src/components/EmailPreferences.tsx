@@ -3,17 +3,43 @@ import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Mail, Bell, Save } from 'lucide-react';
+import NotificationEmailField from '@/components/NotificationEmailField';
+import NotificationPreferenceGrid from '@/components/NotificationPreferenceGrid';
+import ReminderOffsetPicker from '@/components/ReminderOffsetPicker';
+import TimezoneSelect from '@/components/TimezoneSelect';
+import { DEFAULT_REMINDER_OFFSETS, formatReminderOffset } from '@/lib/reminders';
+import { DEFAULT_LOCALE, localeLabel } from '@/lib/notificationTemplates';
+import { timezoneLabel } from '@/lib/timezones';
+import {
+  buildPreferenceMatrix,
+  isKindEnabled,
+  matrixToCells,
+  type PreferenceMatrix
+} from '@/lib/notificationPreferences';
+import { Mail, Bell, Save, AlertTriangle } from 'lucide-react';
 
 interface EmailPreferences {
   id?: string;
   notification_email: string;
-  lecture_reminders: boolean;
-  daily_digest: boolean;
+  pending_notification_email: string | null;
+  notification_email_verified_at: string | null;
+  reminder_offsets: number[] | null;
+  digest_replaces_reminders: boolean;
+}
+
+interface EmailSuppression {
+  email_suppressed_at: string | null;
+  email_suppression_reason: string | null;
+}
+
+interface UnsubscribedCourse {
+  course_id: string;
+  course: { course_code: string; title: string } | null;
 }
 
 const EmailPreferences: React.FC = () => {
@@ -21,9 +47,20 @@ const EmailPreferences: React.FC = () => {
   const { toast } = useToast();
   const [preferences, setPreferences] = useState<EmailPreferences>({
     notification_email: '',
-    lecture_reminders: true,
-    daily_digest: false
+    pending_notification_email: null,
+    notification_email_verified_at: null,
+    reminder_offsets: null,
+    digest_replaces_reminders: false
   });
+  const [matrix, setMatrix] = useState<PreferenceMatrix>(() => buildPreferenceMatrix([]));
+  const [savedMatrix, setSavedMatrix] = useState<PreferenceMatrix | null>(null);
+  const [unsubscribedCourses, setUnsubscribedCourses] = useState<UnsubscribedCourse[]>([]);
+  const [suppression, setSuppression] = useState<EmailSuppression | null>(null);
+  const [defaultOffsets, setDefaultOffsets] = useState<number[]>(DEFAULT_REMINDER_OFFSETS);
+  const [locale, setLocale] = useState(DEFAULT_LOCALE);
+  const [locales, setLocales] = useState<string[]>([DEFAULT_LOCALE]);
+  const [timezone, setTimezone] = useState<string | null>(null);
+  const [institutionTimezone, setInstitutionTimezone] = useState('UTC');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
@@ -33,8 +70,55 @@ const EmailPreferences: React.FC = () => {
     }
   }, [user, profile]);
 
+  // Set by the bounce webhook; cleared once the address we email is no longer suppressed
+  const fetchSuppression = async () => {
+    const { data } = await supabase
+      .from('profiles')
+      .select('email_suppressed_at, email_suppression_reason')
+      .eq('id', user!.id)
+      .maybeSingle();
+
+    setSuppression(data);
+  };
+
   const fetchEmailPreferences = async () => {
     try {
+      await fetchSuppression();
+
+      const { data: settings } = await supabase
+        .from('institution_settings')
+        .select('default_reminder_offsets, timezone')
+        .maybeSingle();
+
+      if (settings) {
+        setDefaultOffsets(settings.default_reminder_offsets);
+        setInstitutionTimezone(settings.timezone);
+      }
+
+      // Only offer languages that have templates
+      const { data: templates } = await supabase
+        .from('notification_templates')
+        .select('locale');
+
+      if (templates) {
+        setLocales(Array.from(new Set([DEFAULT_LOCALE, ...templates.map(t => t.locale)])).sort());
+      }
+      const [{ data: defaults }, { data: choices }, { data: courseUnsubscribes }] = await Promise.all([
+        supabase.from('notification_preference_defaults').select('kind, channel, enabled'),
+        supabase.from('notification_preferences').select('kind, channel, enabled').eq('user_id', user!.id),
+        supabase
+          .from('course_email_unsubscribes')
+          .select('course_id, course:course_id (course_code, title)')
+          .eq('user_id', user!.id)
+      ]);
+      const current = buildPreferenceMatrix(defaults || [], choices || []);
+      setMatrix(current);
+      setSavedMatrix(current);
+      setUnsubscribedCourses((courseUnsubscribes || []) as unknown as UnsubscribedCourse[]);
+
+      setLocale(profile?.locale || DEFAULT_LOCALE);
+      setTimezone(profile?.timezone ?? null);
+
       const { data, error } = await supabase
         .from('email_preferences')
         .select('*')
@@ -49,9 +133,11 @@ const EmailPreferences: React.FC = () => {
       if (data) {
         setPreferences({
           id: data.id,
-          notification_email: data.notification_email,
-          lecture_reminders: data.lecture_reminders,
-          daily_digest: data.daily_digest
+          notification_email: data.notification_email || profile?.notification_email || profile?.email || '',
+          pending_notification_email: data.pending_notification_email,
+          notification_email_verified_at: data.notification_email_verified_at,
+          reminder_offsets: data.reminder_offsets,
+          digest_replaces_reminders: data.digest_replaces_reminders
         });
       } else {
         // Set default email from profile
@@ -67,6 +153,25 @@ const EmailPreferences: React.FC = () => {
     }
   };
 
+  const resubscribeCourse = async (courseId: string) => {
+    const { error } = await supabase
+      .from('course_email_unsubscribes')
+      .delete()
+      .eq('user_id', user!.id)
+      .eq('course_id', courseId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to resubscribe.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUnsubscribedCourses(prev => prev.filter(c => c.course_id !== courseId));
+  };
+
   const savePreferences = async () => {
     if (!user) return;
 
@@ -75,8 +180,8 @@ const EmailPreferences: React.FC = () => {
       const preferenceData = {
         user_id: user.id,
         notification_email: preferences.notification_email,
-        lecture_reminders: preferences.lecture_reminders,
-        daily_digest: preferences.daily_digest
+        reminder_offsets: preferences.reminder_offsets,
+        digest_replaces_reminders: preferences.digest_replaces_reminders
       };
 
       if (preferences.id) {
@@ -99,9 +204,29 @@ const EmailPreferences: React.FC = () => {
         setPreferences(prev => ({ ...prev, id: data.id }));
       }
 
+      if (JSON.stringify(matrix) !== JSON.stringify(savedMatrix)) {
+        const { error } = await supabase.rpc('set_notification_preferences', {
+          p_preferences: matrixToCells(matrix)
+        });
+
+        if (error) throw error;
+        setSavedMatrix(matrix);
+      }
+
+      if (locale !== (profile?.locale || DEFAULT_LOCALE) || timezone !== (profile?.timezone ?? null)) {
+        const { error } = await supabase
+          .from('profiles')
+          .update({ locale, timezone })
+          .eq('id', user.id);
+
+        if (error) throw error;
+      }
+
+      await fetchSuppression();
+
       toast({
         title: "Preferences saved",
-        description: "Your email preferences have been updated successfully.",
+        description: "Your notification preferences have been updated successfully.",
       });
     } catch (error: any) {
       console.error('Error saving preferences:', error);
@@ -115,6 +240,9 @@ const EmailPreferences: React.FC = () => {
     }
   };
 
+  const remindersEnabled = isKindEnabled(matrix, 'reminder');
+  const digestEnabled = isKindEnabled(matrix, 'digest');
+
   if (loading) {
     return (
       <Card>
@@ -132,62 +260,155 @@ const EmailPreferences: React.FC = () => {
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Mail className="h-5 w-5" />
-          Email Preferences
+          Notification Preferences
         </CardTitle>
         <CardDescription>
-          Manage your notification email and preferences
+          Choose how each kind of notification reaches you
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
-        <div className="space-y-2">
-          <Label htmlFor="notification-email">Notification Email</Label>
-          <Input
-            id="notification-email"
-            type="email"
-            value={preferences.notification_email}
-            onChange={(e) => setPreferences(prev => ({
+        {suppression?.email_suppressed_at && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>We can't email you</AlertTitle>
+            <AlertDescription>
+              {suppression.email_suppression_reason === 'complaint'
+                ? 'Email sent to this address was reported as spam, so we stopped sending to it.'
+                : 'Email to this address bounced, so we stopped sending to it.'}{' '}
+              Enter a different notification email below and save. Until then you'll only get notifications in the app and on your other channels.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <NotificationEmailField
+          email={preferences.notification_email}
+          pendingEmail={preferences.pending_notification_email}
+          verified={Boolean(preferences.notification_email_verified_at)}
+          accountEmail={profile?.email || ''}
+          onChange={(email, pendingEmail) => {
+            setPreferences(prev => ({
               ...prev,
-              notification_email: e.target.value
-            }))}
-            placeholder="Enter your preferred email for notifications"
+              notification_email: email,
+              pending_notification_email: pendingEmail,
+              notification_email_verified_at: email !== prev.notification_email
+                ? new Date().toISOString()
+                : prev.notification_email_verified_at
+            }));
+            fetchSuppression();
+          }}
+        />
+
+        <div className="space-y-2">
+          <Label>Timezone</Label>
+          <TimezoneSelect
+            value={timezone}
+            onChange={setTimezone}
+            defaultLabel={`Institution default: ${timezoneLabel(institutionTimezone)}`}
           />
           <p className="text-sm text-muted-foreground">
-            This email will be used for all notifications. Leave empty to use your account email.
+            Lecture times in your emails, and when your daily digest arrives, follow this timezone.
           </p>
         </div>
 
+        {locales.length > 1 && (
+          <div className="space-y-2">
+            <Label>Notification Language</Label>
+            <Select value={locale} onValueChange={setLocale}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {locales.map(code => (
+                  <SelectItem key={code} value={code}>
+                    {localeLabel(code)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         <div className="space-y-4">
-          <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label className="text-base">Lecture Reminders</Label>
-              <p className="text-sm text-muted-foreground">
-                Receive reminders for upcoming lectures
-              </p>
-            </div>
-            <Switch
-              checked={preferences.lecture_reminders}
-              onCheckedChange={(checked) => setPreferences(prev => ({
-                ...prev,
-                lecture_reminders: checked
-              }))}
-            />
+          <div className="space-y-2">
+            <Label className="text-base">Notifications</Label>
+            <NotificationPreferenceGrid value={matrix} onChange={setMatrix} />
+            <p className="text-sm text-muted-foreground">
+              Push notifications go to the devices you enable below.
+            </p>
           </div>
 
-          <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label className="text-base">Daily Digest</Label>
+          {unsubscribedCourses.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-base">Unsubscribed Courses</Label>
               <p className="text-sm text-muted-foreground">
-                Receive a daily summary of your schedule
+                You get no emails about these courses.
               </p>
+              {unsubscribedCourses.map(({ course_id, course }) => (
+                <div key={course_id} className="flex items-center justify-between rounded-md border p-3">
+                  <p className="text-sm">{course ? `${course.course_code} - ${course.title}` : 'Unknown course'}</p>
+                  <Button variant="outline" size="sm" onClick={() => resubscribeCourse(course_id)}>
+                    Resubscribe
+                  </Button>
+                </div>
+              ))}
             </div>
-            <Switch
-              checked={preferences.daily_digest}
-              onCheckedChange={(checked) => setPreferences(prev => ({
-                ...prev,
-                daily_digest: checked
-              }))}
-            />
-          </div>
+          )}
+
+          {remindersEnabled && (
+            <div className="space-y-3 rounded-md border p-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label className="text-base">Use Institution Default</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {defaultOffsets.length > 0
+                      ? `Reminders ${defaultOffsets.map(formatReminderOffset).join(', ')} before each lecture`
+                      : 'No reminders are sent by default'}
+                  </p>
+                </div>
+                <Switch
+                  checked={preferences.reminder_offsets === null}
+                  onCheckedChange={(checked) => setPreferences(prev => ({
+                    ...prev,
+                    reminder_offsets: checked ? null : defaultOffsets
+                  }))}
+                />
+              </div>
+
+              {preferences.reminder_offsets !== null && (
+                <div className="space-y-2">
+                  <Label>Remind Me</Label>
+                  <ReminderOffsetPicker
+                    value={preferences.reminder_offsets}
+                    onChange={(offsets) => setPreferences(prev => ({
+                      ...prev,
+                      reminder_offsets: offsets
+                    }))}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    You'll get one reminder for each lead time you choose.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {digestEnabled && remindersEnabled && (
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label className="text-base">Skip Day-Before Reminders</Label>
+                <p className="text-sm text-muted-foreground">
+                  Let the digest replace the reminder sent one day before each lecture
+                </p>
+              </div>
+              <Switch
+                checked={preferences.digest_replaces_reminders}
+                onCheckedChange={(checked) => setPreferences(prev => ({
+                  ...prev,
+                  digest_replaces_reminders: checked
+                }))}
+              />
+            </div>
+          )}
         </div>
 
         <Button 
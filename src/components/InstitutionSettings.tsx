@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import ReminderOffsetPicker from '@/components/ReminderOffsetPicker';
+import TimezoneSelect from '@/components/TimezoneSelect';
+import { DEFAULT_REMINDER_OFFSETS } from '@/lib/reminders';
+import { Building2, Save } from 'lucide-react';
+
+const InstitutionSettings: React.FC = () => {
+  const { toast } = useToast();
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>(DEFAULT_REMINDER_OFFSETS);
+  const [digestHour, setDigestHour] = useState(7);
+  const [timezone, setTimezone] = useState('UTC');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      const { data, error } = await supabase
+        .from('institution_settings')
+        .select('default_reminder_offsets, digest_hour, timezone')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching institution settings:', error);
+      } else if (data) {
+        setReminderOffsets(data.default_reminder_offsets);
+        setDigestHour(data.digest_hour);
+        setTimezone(data.timezone);
+      }
+      setLoading(false);
+    };
+
+    fetchSettings();
+  }, []);
+
+  const saveSettings = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('institution_settings')
+        .update({
+          default_reminder_offsets: reminderOffsets,
+          digest_hour: digestHour,
+          timezone,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', true);
+
+      if (error) throw error;
+
+      toast({
+        title: "Settings saved",
+        description: "Upcoming reminders have been rescheduled for students using the defaults.",
+      });
+    } catch (error) {
+      console.error('Error saving institution settings:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save settings.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Institution Defaults
+        </CardTitle>
+        <CardDescription>
+          Apply to every student who hasn't chosen their own settings
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Default Reminder Lead Times</Label>
+          <ReminderOffsetPicker
+            value={reminderOffsets}
+            onChange={setReminderOffsets}
+            disabled={loading}
+          />
+          <p className="text-sm text-muted-foreground">
+            Students get one reminder email for each lead time selected.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Default Timezone</Label>
+          <TimezoneSelect
+            value={timezone}
+            onChange={(value) => value && setTimezone(value)}
+            disabled={loading}
+          />
+          <p className="text-sm text-muted-foreground">
+            Used for students and staff who haven't picked their own timezone.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Daily Digest Time</Label>
+          <Select
+            value={String(digestHour)}
+            onValueChange={(value) => setDigestHour(Number(value))}
+            disabled={loading}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: 24 }, (_, hour) => (
+                <SelectItem key={hour} value={String(hour)}>
+                  {String(hour).padStart(2, '0')}:00
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            Digests go out at this hour in each student's own timezone.
+          </p>
+        </div>
+
+        <Button onClick={saveSettings} disabled={loading || saving}>
+          <Save className="h-4 w-4 mr-2" />
+          {saving ? 'Saving...' : 'Save Defaults'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InstitutionSettings;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { useToast } from '@/hooks/use-toast';
+import { Send } from 'lucide-react';
+
+const CODE_LENGTH = 6;
+
+interface NotificationEmailFieldProps {
+  /** Where notifications go now. */
+  email: string;
+  /** A new address waiting for its code. */
+  pendingEmail: string | null;
+  verified: boolean;
+  accountEmail: string;
+  /** Called after the address or the pending address changes on the server. */
+  onChange: (email: string, pendingEmail: string | null) => void;
+}
+
+const NotificationEmailField: React.FC<NotificationEmailFieldProps> = ({
+  email,
+  pendingEmail,
+  verified,
+  accountEmail,
+  onChange
+}) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [newEmail, setNewEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const callVerifyEmail = async (body: Record<string, string>) => {
+    const { data, error } = await supabase.functions.invoke('verify-email', { body });
+    if (error) {
+      // The function's own message is more useful than the generic one
+      const details = await (error as { context?: Response }).context?.json?.().catch(() => null);
+      throw new Error(details?.error || error.message);
+    }
+    return data;
+  };
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || fallback,
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sendCode = (address: string) => run(async () => {
+    const data = await callVerifyEmail({ action: 'send', email: address });
+    onChange(email, data.pending_email);
+    setEditing(false);
+    setCode('');
+    toast({
+      title: "Code sent",
+      description: `Enter the 6-digit code we emailed to ${data.pending_email}.`,
+    });
+  }, "Failed to send verification code.");
+
+  const confirmCode = () => run(async () => {
+    const data = await callVerifyEmail({ action: 'confirm', code });
+    onChange(data.email, null);
+    setCode('');
+    toast({
+      title: "Email verified",
+      description: `Notifications will now go to ${data.email}.`,
+    });
+  }, "Failed to verify code.");
+
+  const cancelPending = () => run(async () => {
+    await callVerifyEmail({ action: 'cancel' });
+    onChange(email, null);
+    setCode('');
+  }, "Failed to cancel the change.");
+
+  const sendTest = () => run(async () => {
+    const data = await callVerifyEmail({ action: 'test' });
+    toast({
+      title: "Test email sent",
+      description: `Check ${data.email} for a message from LectureHub.`,
+    });
+  }, "Failed to send test email.");
+
+  // The account's own address is trusted, so switching back needs no code
+  const switchToAccountEmail = () => run(async () => {
+    const { error } = await supabase
+      .from('email_preferences')
+      .update({ notification_email: accountEmail })
+      .eq('user_id', user!.id);
+
+    if (error) throw error;
+    onChange(accountEmail, pendingEmail);
+  }, "Failed to change notification email.");
+
+  const isAccountEmail = email.toLowerCase() === accountEmail.toLowerCase();
+
+  return (
+    <div className="space-y-3">
+      <Label>Notification Email</Label>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm flex items-center gap-2">
+          {email}
+          {isAccountEmail ? (
+            <Badge variant="secondary">Account email</Badge>
+          ) : verified ? (
+            <Badge variant="secondary">Verified</Badge>
+          ) : null}
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={sendTest} disabled={busy}>
+            <Send className="h-4 w-4 mr-2" />
+            Send Test Email
+          </Button>
+          {!editing && !pendingEmail && (
+            <Button variant="outline" size="sm" onClick={() => setEditing(true)} disabled={busy}>
+              Change
+            </Button>
+          )}
+          {!isAccountEmail && !pendingEmail && (
+            <Button variant="ghost" size="sm" onClick={switchToAccountEmail} disabled={busy}>
+              Use {accountEmail}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {editing && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              id="notification-email"
+              type="email"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              placeholder="Enter your preferred email for notifications"
+            />
+            <Button onClick={() => sendCode(newEmail)} disabled={busy || !newEmail.trim()}>
+              Send Code
+            </Button>
+            <Button variant="ghost" onClick={() => setEditing(false)} disabled={busy}>
+              Cancel
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            We'll email a code to the new address. Notifications keep going to {email} until you confirm it.
+          </p>
+        </div>
+      )}
+
+      {pendingEmail && (
+        <div className="space-y-2 rounded-md border p-4">
+          <p className="text-sm">
+            Waiting to confirm <span className="font-medium">{pendingEmail}</span>. Enter the code we sent there.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <InputOTP maxLength={CODE_LENGTH} value={code} onChange={setCode}>
+              <InputOTPGroup>
+                {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+            <Button onClick={confirmCode} disabled={busy || code.length !== CODE_LENGTH}>
+              Verify
+            </Button>
+            <Button variant="outline" onClick={() => sendCode(pendingEmail)} disabled={busy}>
+              Resend Code
+            </Button>
+            <Button variant="ghost" onClick={cancelPending} disabled={busy}>
+              Keep {email}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationEmailField;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  PREFERENCE_CHANNELS,
+  PREFERENCE_KINDS,
+  type PreferenceChannel,
+  type PreferenceKind,
+  type PreferenceMatrix
+} from '@/lib/notificationPreferences';
+
+interface NotificationPreferenceGridProps {
+  value: PreferenceMatrix;
+  onChange: (matrix: PreferenceMatrix) => void;
+  disabled?: boolean;
+}
+
+const NotificationPreferenceGrid: React.FC<NotificationPreferenceGridProps> = ({ value, onChange, disabled }) => {
+  const setCell = (kind: PreferenceKind, channel: PreferenceChannel, enabled: boolean) => {
+    onChange({ ...value, [kind]: { ...value[kind], [channel]: enabled } });
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Notification</TableHead>
+          {PREFERENCE_CHANNELS.map(channel => (
+            <TableHead key={channel.value} className="text-center w-20">
+              {channel.label}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {PREFERENCE_KINDS.map(kind => (
+          <TableRow key={kind.value}>
+            <TableCell>
+              <p className="font-medium">{kind.label}</p>
+              <p className="text-xs text-muted-foreground">{kind.description}</p>
+            </TableCell>
+            {PREFERENCE_CHANNELS.map(channel => (
+              <TableCell key={channel.value} className="text-center">
+                <Checkbox
+                  checked={value[kind.value][channel.value]}
+                  onCheckedChange={(checked) => setCell(kind.value, channel.value, checked === true)}
+                  disabled={disabled}
+                  aria-label={`${kind.label} by ${channel.label}`}
+                />
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default NotificationPreferenceGrid;
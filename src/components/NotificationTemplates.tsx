@@ -0,0 +1,319 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_LOCALE,
+  KIND_VARIABLES,
+  NOTIFICATION_KINDS,
+  SMS_KINDS,
+  SMS_MAX_LENGTH,
+  TEMPLATE_CHANNELS,
+  type NotificationKind,
+  type TemplateChannel
+} from '@/lib/notificationTemplates';
+import { FileText, Save, RotateCcw, AlertTriangle } from 'lucide-react';
+
+interface TemplateDraft {
+  subject: string;
+  body: string;
+}
+
+interface Preview {
+  subject: string;
+  text: string;
+  html: string;
+  unknownVariables: string[];
+}
+
+const PREVIEW_DELAY_MS = 400;
+
+const NotificationTemplates: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const [kind, setKind] = useState<NotificationKind>('scheduled');
+  const [locale, setLocale] = useState(DEFAULT_LOCALE);
+  const [channel, setChannel] = useState<TemplateChannel>('email');
+  const [saved, setSaved] = useState<TemplateDraft | null>(null);
+  const [draft, setDraft] = useState<TemplateDraft>({ subject: '', body: '' });
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchTemplate = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('notification_templates')
+        .select('subject, body, locale')
+        .eq('kind', kind)
+        .eq('channel', channel)
+        .in('locale', [locale, DEFAULT_LOCALE]);
+
+      if (error) {
+        console.error('Error fetching notification template:', error);
+      } else {
+        const exact = data?.find(row => row.locale === locale) ?? null;
+        // A new locale starts from the default wording
+        const fallback = data?.find(row => row.locale === DEFAULT_LOCALE) ?? null;
+        const template = exact ?? fallback;
+
+        setSaved(exact ? { subject: exact.subject, body: exact.body } : null);
+        setDraft(template ? { subject: template.subject, body: template.body } : { subject: '', body: '' });
+      }
+      setLoading(false);
+    };
+
+    fetchTemplate();
+  }, [kind, locale, channel]);
+
+  // Render through the edge function so the preview matches what is sent
+  useEffect(() => {
+    if (loading) return;
+
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.functions.invoke('preview-notification-template', {
+        body: { kind, locale, channel, subject: draft.subject, body: draft.body }
+      });
+
+      if (error) {
+        setPreviewError(error.message);
+      } else {
+        setPreviewError(null);
+        setPreview(data as Preview);
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [kind, locale, channel, draft, loading]);
+
+  const insertVariable = (name: string) => {
+    const placeholder = `{{${name}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? draft.body.length;
+    const end = textarea?.selectionEnd ?? draft.body.length;
+
+    setDraft(prev => ({
+      ...prev,
+      body: prev.body.slice(0, start) + placeholder + prev.body.slice(end)
+    }));
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const changeChannel = (value: TemplateChannel) => {
+    setChannel(value);
+    if (value === 'sms' && kind === 'digest') {
+      setKind('scheduled');
+    }
+  };
+
+  const saveTemplate = async () => {
+    // Texts have no subject line
+    if ((!isSms && !draft.subject.trim()) || !draft.body.trim()) {
+      toast({
+        title: "Error",
+        description: isSms ? "Body is required." : "Subject and body are both required.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('notification_templates')
+        .upsert({
+          kind,
+          locale,
+          channel,
+          subject: isSms ? '' : draft.subject,
+          body: draft.body,
+          updated_by: user?.id,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'kind,locale,channel' });
+
+      if (error) throw error;
+
+      setSaved(draft);
+      toast({
+        title: "Template saved",
+        description: "New notifications will use the updated wording.",
+      });
+    } catch (error) {
+      console.error('Error saving notification template:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save template.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isSms = channel === 'sms';
+  const kinds = isSms ? SMS_KINDS : NOTIFICATION_KINDS;
+  const variables = KIND_VARIABLES[kind];
+  const isDirty = !saved || saved.subject !== draft.subject || saved.body !== draft.body;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Notification Templates
+        </CardTitle>
+        <CardDescription>
+          Edit the wording of each notification. The preview uses sample lecture details.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Channel</Label>
+            <Select value={channel} onValueChange={(value) => changeChannel(value as TemplateChannel)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TEMPLATE_CHANNELS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Notification</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as NotificationKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {kinds.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-locale">Locale</Label>
+            <Input
+              id="template-locale"
+              value={locale}
+              onChange={(e) => setLocale(e.target.value.trim() || DEFAULT_LOCALE)}
+              placeholder="en"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            {!isSms && (
+              <div className="space-y-2">
+                <Label htmlFor="template-subject">Subject</Label>
+                <Input
+                  id="template-subject"
+                  value={draft.subject}
+                  onChange={(e) => setDraft(prev => ({ ...prev, subject: e.target.value }))}
+                  disabled={loading}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="template-body">Body</Label>
+              <Textarea
+                id="template-body"
+                ref={bodyRef}
+                rows={isSms ? 4 : 12}
+                className="font-mono text-sm"
+                value={draft.body}
+                onChange={(e) => setDraft(prev => ({ ...prev, body: e.target.value }))}
+                disabled={loading}
+              />
+              <div className="flex flex-wrap gap-1">
+                {variables.map(name => (
+                  <Badge
+                    key={name}
+                    variant="outline"
+                    className="cursor-pointer font-mono"
+                    onClick={() => insertVariable(name)}
+                  >
+                    {`{{${name}}}`}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Wrap optional text in {'{{#name}}...{{/name}}'} to hide it when that variable is empty.
+              </p>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={saveTemplate} disabled={loading || saving || !isDirty}>
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Template'}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => saved && setDraft(saved)}
+                disabled={!saved || !isDirty}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Revert
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Preview</Label>
+            {previewError ? (
+              <p className="text-sm text-destructive">{previewError}</p>
+            ) : preview && isSms ? (
+              <div className="space-y-1">
+                <div className="rounded-md border bg-muted/50 p-4 text-sm whitespace-pre-line">{preview.text}</div>
+                <p className="text-xs text-muted-foreground">
+                  {preview.text.length} / {SMS_MAX_LENGTH} characters. Longer texts are cut short.
+                </p>
+              </div>
+            ) : preview && (
+              <div className="rounded-md border">
+                <div className="border-b px-4 py-2 text-sm font-medium">{preview.subject}</div>
+                <iframe
+                  title="Template preview"
+                  sandbox=""
+                  className="w-full h-72 bg-white"
+                  srcDoc={`<body style="font-family: sans-serif; font-size: 14px;">${preview.html}</body>`}
+                />
+              </div>
+            )}
+            {preview && preview.unknownVariables.length > 0 && (
+              <p className="flex items-center gap-2 text-sm text-warning">
+                <AlertTriangle className="h-4 w-4" />
+                Unknown variables: {preview.unknownVariables.join(', ')}
+              </p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationTemplates;
@@ -0,0 +1,167 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import {
+  describeUserAgent,
+  getCurrentSubscription,
+  isPushSupported,
+  removePushSubscription,
+  subscribeToPush
+} from '@/lib/push';
+import { BellRing, Smartphone, Trash2 } from 'lucide-react';
+
+interface Device {
+  id: string;
+  endpoint: string;
+  user_agent: string | null;
+  created_at: string | null;
+  last_used_at: string | null;
+}
+
+const PushNotificationSettings: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [currentEndpoint, setCurrentEndpoint] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const supported = isPushSupported();
+
+  const fetchDevices = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [{ data, error }, subscription] = await Promise.all([
+        supabase
+          .from('push_subscriptions')
+          .select('id, endpoint, user_agent, created_at, last_used_at')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false }),
+        getCurrentSubscription()
+      ]);
+
+      if (error) throw error;
+      setDevices(data || []);
+      setCurrentEndpoint(subscription?.endpoint ?? null);
+    } catch (error) {
+      console.error('Error fetching push devices:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchDevices();
+  }, [fetchDevices]);
+
+  const enableOnThisDevice = async () => {
+    setBusy(true);
+    try {
+      await subscribeToPush();
+      toast({
+        title: "Push notifications enabled",
+        description: "This device will now receive lecture notifications.",
+      });
+      fetchDevices();
+    } catch (error) {
+      console.error('Error enabling push notifications:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to enable push notifications.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const removeDevice = async (device: Device) => {
+    setBusy(true);
+    try {
+      await removePushSubscription(device.id, device.endpoint);
+      toast({
+        title: "Device removed",
+        description: "It will no longer receive push notifications.",
+      });
+      fetchDevices();
+    } catch (error) {
+      console.error('Error removing push device:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to remove device.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const thisDeviceRegistered = devices.some(device => device.endpoint === currentEndpoint);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Push Notifications
+        </CardTitle>
+        <CardDescription>
+          Get notifications on your devices. Choose which ones in the Push column above.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!supported ? (
+          <p className="text-sm text-muted-foreground">
+            This browser does not support push notifications.
+          </p>
+        ) : !thisDeviceRegistered && (
+          <Button onClick={enableOnThisDevice} disabled={loading || busy}>
+            <BellRing className="h-4 w-4 mr-2" />
+            {busy ? 'Enabling...' : 'Enable on This Device'}
+          </Button>
+        )}
+
+        {devices.length > 0 ? (
+          <div className="space-y-2">
+            {devices.map(device => (
+              <div key={device.id} className="flex items-center justify-between rounded-md border p-3">
+                <div className="flex items-center gap-3">
+                  <Smartphone className="h-4 w-4 text-muted-foreground" />
+                  <div>
+                    <p className="text-sm font-medium flex items-center gap-2">
+                      {describeUserAgent(device.user_agent)}
+                      {device.endpoint === currentEndpoint && <Badge variant="secondary">This device</Badge>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {device.last_used_at
+                        ? `Last notified ${formatDistanceToNow(new Date(device.last_used_at), { addSuffix: true })}`
+                        : 'Not notified yet'}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeDevice(device)}
+                  disabled={busy}
+                  aria-label="Remove device"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : !loading && (
+          <p className="text-sm text-muted-foreground">No devices are registered for push notifications.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PushNotificationSettings;
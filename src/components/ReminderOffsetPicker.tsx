@@ -0,0 +1,34 @@
+import React from 'react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { REMINDER_OFFSET_OPTIONS, formatReminderOffset, sortReminderOffsets } from '@/lib/reminders';
+
+interface ReminderOffsetPickerProps {
+  value: number[];
+  onChange: (offsets: number[]) => void;
+  disabled?: boolean;
+}
+
+const ReminderOffsetPicker: React.FC<ReminderOffsetPickerProps> = ({ value, onChange, disabled }) => {
+  // Keep lead times saved outside the preset list selectable
+  const options = sortReminderOffsets([...REMINDER_OFFSET_OPTIONS, ...value]).reverse();
+
+  return (
+    <ToggleGroup
+      type="multiple"
+      variant="outline"
+      size="sm"
+      className="flex-wrap justify-start"
+      value={value.map(String)}
+      onValueChange={(selected) => onChange(sortReminderOffsets(selected.map(Number)))}
+      disabled={disabled}
+    >
+      {options.map((minutes) => (
+        <ToggleGroupItem key={minutes} value={String(minutes)}>
+          {formatReminderOffset(minutes)} before
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  );
+};
+
+export default ReminderOffsetPicker;
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Activity } from 'lucide-react';
+
+interface SchedulerRun {
+  id: string;
+  trigger: string;
+  status: 'running' | 'succeeded' | 'failed';
+  started_at: string;
+  finished_at: string | null;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  error: string | null;
+}
+
+// pg_cron runs the processor every minute; allow a couple of missed beats
+const STALE_AFTER_MS = 3 * 60 * 1000;
+
+const SchedulerStatus: React.FC = () => {
+  const [lastRun, setLastRun] = useState<SchedulerRun | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchLastRun = async () => {
+      const { data, error } = await supabase
+        .from('scheduler_runs')
+        .select('*')
+        .eq('job', 'process-notifications')
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching scheduler status:', error);
+      } else {
+        setLastRun(data as SchedulerRun | null);
+      }
+      setLoading(false);
+    };
+
+    fetchLastRun();
+    const interval = setInterval(fetchLastRun, 60000);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const getHealth = () => {
+    if (!lastRun) {
+      return { label: 'No runs yet', variant: 'secondary' as const };
+    }
+    if (Date.now() - new Date(lastRun.started_at).getTime() > STALE_AFTER_MS) {
+      return { label: 'Stalled', variant: 'destructive' as const };
+    }
+    if (lastRun.status === 'failed') {
+      return { label: 'Failing', variant: 'destructive' as const };
+    }
+    return { label: 'Healthy', variant: 'success' as const };
+  };
+
+  const health = getHealth();
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Activity className="h-5 w-5" />
+            Notification Scheduler
+          </CardTitle>
+          <CardDescription>Server-side delivery of queued notifications</CardDescription>
+        </div>
+        {!loading && <Badge variant={health.variant}>{health.label}</Badge>}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading scheduler status...</p>
+        ) : lastRun ? (
+          <div className="space-y-1 text-sm">
+            <p>
+              Last run {new Date(lastRun.started_at).toLocaleString()}{' '}
+              <span className="text-muted-foreground">({lastRun.trigger})</span>
+            </p>
+            <p className="text-muted-foreground">
+              {lastRun.processed} processed • {lastRun.succeeded} sent • {lastRun.failed} failed
+            </p>
+            {lastRun.error && (
+              <p className="text-destructive">{lastRun.error}</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            The scheduler has not recorded a run. Check that the pg_cron job is enabled.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SchedulerStatus;
@@ -0,0 +1,304 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { useToast } from '@/hooks/use-toast';
+import { SMS_KINDS, type NotificationKind } from '@/lib/notificationTemplates';
+import { MessageSquare, Save } from 'lucide-react';
+
+const CODE_LENGTH = 6;
+
+const SmsSettings: React.FC = () => {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const [verifiedNumber, setVerifiedNumber] = useState<string | null>(null);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [editing, setEditing] = useState(false);
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState('');
+  const [preferencesId, setPreferencesId] = useState<string | null>(null);
+  const [smsKinds, setSmsKinds] = useState<NotificationKind[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const fetchSettings = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [{ data: phone, error: phoneError }, { data: preferences, error: preferencesError }] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('phone_number, phone_verified_at')
+          .eq('id', user.id)
+          .single(),
+        supabase
+          .from('email_preferences')
+          .select('id, sms_kinds')
+          .eq('user_id', user.id)
+          .maybeSingle()
+      ]);
+
+      if (phoneError) throw phoneError;
+      if (preferencesError) throw preferencesError;
+
+      const verified = phone.phone_verified_at ? phone.phone_number : null;
+      setVerifiedNumber(verified);
+      setPhoneNumber(phone.phone_number ?? '');
+      setEditing(!verified);
+      setPreferencesId(preferences?.id ?? null);
+      setSmsKinds((preferences?.sms_kinds ?? []) as NotificationKind[]);
+    } catch (error) {
+      console.error('Error fetching SMS settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const callVerifyPhone = async (body: Record<string, string>) => {
+    const { data, error } = await supabase.functions.invoke('verify-phone', { body });
+    if (error) {
+      // The function's own message is more useful than the generic one
+      const details = await (error as { context?: Response }).context?.json?.().catch(() => null);
+      throw new Error(details?.error || error.message);
+    }
+    return data;
+  };
+
+  const sendCode = async () => {
+    setBusy(true);
+    try {
+      await callVerifyPhone({ action: 'send', phone_number: phoneNumber.replace(/[\s()-]/g, '') });
+      setCodeSent(true);
+      setCode('');
+      toast({
+        title: "Code sent",
+        description: "Enter the 6-digit code we texted to your phone.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to send verification code.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmCode = async () => {
+    setBusy(true);
+    try {
+      const data = await callVerifyPhone({ action: 'confirm', code });
+      setVerifiedNumber(data.phone_number);
+      setEditing(false);
+      setCodeSent(false);
+      toast({
+        title: "Phone number verified",
+        description: "You can now choose notifications to receive by SMS.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to verify code.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const removeNumber = async () => {
+    if (!user) return;
+
+    setBusy(true);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ phone_number: null })
+        .eq('id', user.id);
+
+      if (error) throw error;
+
+      setVerifiedNumber(null);
+      setPhoneNumber('');
+      setEditing(true);
+      toast({
+        title: "Phone number removed",
+        description: "You will no longer receive text messages.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to remove phone number.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleKind = (kind: NotificationKind, checked: boolean) => {
+    setSmsKinds(prev => (checked ? [...prev, kind] : prev.filter(k => k !== kind)));
+  };
+
+  const saveKinds = async () => {
+    if (!user) return;
+
+    setBusy(true);
+    try {
+      if (preferencesId) {
+        const { error } = await supabase
+          .from('email_preferences')
+          .update({ sms_kinds: smsKinds })
+          .eq('id', preferencesId);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('email_preferences')
+          .insert({
+            user_id: user.id,
+            notification_email: profile?.notification_email || profile?.email || '',
+            sms_kinds: smsKinds
+          })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        setPreferencesId(data.id);
+      }
+
+      toast({
+        title: "Preferences saved",
+        description: "Your SMS preferences have been updated.",
+      });
+    } catch (error) {
+      console.error('Error saving SMS preferences:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save SMS preferences.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Text Messages
+        </CardTitle>
+        <CardDescription>
+          Get the notifications that matter most to you by SMS as well.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!editing && verifiedNumber ? (
+          <div className="flex items-center justify-between">
+            <p className="text-sm flex items-center gap-2">
+              {verifiedNumber}
+              <Badge variant="secondary">Verified</Badge>
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setEditing(true)} disabled={busy}>
+                Change
+              </Button>
+              <Button variant="ghost" size="sm" onClick={removeNumber} disabled={busy}>
+                Remove
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="phone-number">Phone Number</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="phone-number"
+                  type="tel"
+                  placeholder="+2348012345678"
+                  value={phoneNumber}
+                  onChange={(e) => setPhoneNumber(e.target.value)}
+                />
+                <Button onClick={sendCode} disabled={busy || !phoneNumber.trim()}>
+                  {codeSent ? 'Resend Code' : 'Send Code'}
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Include your country code. We'll text you a code to confirm it's yours.
+              </p>
+            </div>
+
+            {codeSent && (
+              <div className="space-y-2">
+                <Label>Verification Code</Label>
+                <div className="flex items-center gap-2">
+                  <InputOTP maxLength={CODE_LENGTH} value={code} onChange={setCode}>
+                    <InputOTPGroup>
+                      {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                  <Button onClick={confirmCode} disabled={busy || code.length !== CODE_LENGTH}>
+                    Verify
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {verifiedNumber && (
+              <Button variant="ghost" size="sm" onClick={() => { setEditing(false); setCodeSent(false); }}>
+                Keep {verifiedNumber}
+              </Button>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <Label>Send by SMS</Label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {SMS_KINDS.map(kind => (
+              <div key={kind.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`sms-${kind.value}`}
+                  checked={smsKinds.includes(kind.value)}
+                  onCheckedChange={(checked) => toggleKind(kind.value, checked === true)}
+                  disabled={!verifiedNumber}
+                />
+                <Label htmlFor={`sms-${kind.value}`} className="font-normal">
+                  {kind.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+          {!verifiedNumber && (
+            <p className="text-sm text-muted-foreground">Verify a phone number to choose notifications.</p>
+          )}
+        </div>
+
+        <Button onClick={saveKinds} disabled={busy || !verifiedNumber}>
+          <Save className="h-4 w-4 mr-2" />
+          Save SMS Preferences
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SmsSettings;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { TIMEZONES, timezoneLabel } from '@/lib/timezones';
+import { Check, ChevronsUpDown } from 'lucide-react';
+
+interface TimezoneSelectProps {
+  value: string | null;
+  onChange: (timezone: string | null) => void;
+  /** Label for the "no timezone of my own" choice; omit to require a zone. */
+  defaultLabel?: string;
+  disabled?: boolean;
+}
+
+const TimezoneSelect: React.FC<TimezoneSelectProps> = ({ value, onChange, defaultLabel, disabled }) => {
+  const [open, setOpen] = useState(false);
+
+  const select = (timezone: string | null) => {
+    onChange(timezone);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+          disabled={disabled}
+        >
+          {value ? timezoneLabel(value) : defaultLabel ?? 'Select timezone'}
+          <ChevronsUpDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search timezones..." />
+          <CommandList>
+            <CommandEmpty>No timezone found.</CommandEmpty>
+            <CommandGroup>
+              {defaultLabel && (
+                <CommandItem value={defaultLabel} onSelect={() => select(null)}>
+                  <Check className={cn('mr-2 h-4 w-4', value === null ? 'opacity-100' : 'opacity-0')} />
+                  {defaultLabel}
+                </CommandItem>
+              )}
+              {TIMEZONES.map(timezone => (
+                <CommandItem key={timezone} value={timezone} onSelect={() => select(timezone)}>
+                  <Check className={cn('mr-2 h-4 w-4', value === timezone ? 'opacity-100' : 'opacity-0')} />
+                  {timezone.replace(/_/g, ' ')}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TimezoneSelect;
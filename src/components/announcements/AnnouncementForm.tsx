@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface Course {
+  id: string;
+  title: string;
+  course_code: string;
+}
+
+interface AnnouncementFormProps {
+  onSuccess?: () => void;
+}
+
+// datetime-local wants the browser's local time without a zone
+const toLocalInput = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const defaultPublishAt = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(8, 0, 0, 0);
+  return toLocalInput(date);
+};
+
+const AnnouncementForm: React.FC<AnnouncementFormProps> = ({ onSuccess }) => {
+  const { profile, isAdmin, isLecturer } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [courseIds, setCourseIds] = useState<string[]>([]);
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [isPinned, setIsPinned] = useState(false);
+  const [timing, setTiming] = useState<'now' | 'later'>('now');
+  const [publishAt, setPublishAt] = useState(defaultPublishAt);
+
+  useEffect(() => {
+    const fetchCourses = async () => {
+      try {
+        let query = supabase
+          .from('courses')
+          .select('id, title, course_code')
+          .eq('is_active', true);
+
+        if (isLecturer && !isAdmin) {
+          query = query.eq('lecturer_id', profile?.id);
+        }
+
+        const { data, error } = await query.order('course_code');
+
+        if (error) throw error;
+        setCourses(data || []);
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: (error as Error).message || "Failed to load courses.",
+          variant: "destructive",
+        });
+      }
+    };
+
+    fetchCourses();
+  }, [profile, isAdmin, isLecturer, toast]);
+
+  const toggleCourse = (courseId: string, checked: boolean) => {
+    setCourseIds(prev => (checked ? [...prev, courseId] : prev.filter(id => id !== courseId)));
+  };
+
+  const publishLater = timing === 'later';
+  const publishAtInvalid = publishLater && (!publishAt || new Date(publishAt) <= new Date());
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      // Creates the announcement and queues a notification for every enrolled student
+      const { error } = await supabase.rpc('publish_announcement', {
+        p_title: title,
+        p_body: body,
+        p_course_ids: courseIds,
+        p_is_pinned: isPinned,
+        p_publish_at: publishLater ? new Date(publishAt).toISOString() : undefined
+      });
+
+      if (error) throw error;
+
+      if (publishLater) {
+        toast({
+          title: "Announcement scheduled",
+          description: `Students will see it on ${new Date(publishAt).toLocaleString()}.`,
+        });
+      } else {
+        toast({
+          title: "Announcement published",
+          description: "Enrolled students are being notified.",
+        });
+
+        // Deliver right away rather than waiting for the next processing run
+        const { error: processError } = await supabase.functions.invoke('process-notifications', {
+          body: { trigger: 'announcement' }
+        });
+        if (processError) {
+          console.error('Error triggering notification processing:', processError);
+        }
+      }
+
+      setTitle('');
+      setBody('');
+      setCourseIds([]);
+      setIsPinned(false);
+      setTiming('now');
+      setPublishAt(defaultPublishAt());
+
+      onSuccess?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to publish announcement.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Post Announcement</CardTitle>
+        <CardDescription>
+          Students in the chosen courses see it on their dashboard and are notified the way they've chosen for announcements.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Courses</Label>
+            {courses.length === 0 ? (
+              <p className="text-sm text-muted-foreground">You have no active courses.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {courses.map(course => (
+                  <div key={course.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`announcement-course-${course.id}`}
+                      checked={courseIds.includes(course.id)}
+                      onCheckedChange={(checked) => toggleCourse(course.id, checked === true)}
+                    />
+                    <Label htmlFor={`announcement-course-${course.id}`} className="font-normal">
+                      {course.course_code} - {course.title}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="announcement-title">Title</Label>
+            <Input
+              id="announcement-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Lab moved to Room 4"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="announcement-body">Message</Label>
+            <Textarea
+              id="announcement-body"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              rows={5}
+              required
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="announcement-pinned">Pin to the top</Label>
+              <p className="text-sm text-muted-foreground">Pinned announcements are listed before the others.</p>
+            </div>
+            <Switch id="announcement-pinned" checked={isPinned} onCheckedChange={setIsPinned} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Publish</Label>
+            <RadioGroup value={timing} onValueChange={(value) => setTiming(value as 'now' | 'later')}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="now" id="announcement-publish-now" />
+                <Label htmlFor="announcement-publish-now" className="font-normal">Now</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="later" id="announcement-publish-later" />
+                <Label htmlFor="announcement-publish-later" className="font-normal">At a set time</Label>
+              </div>
+            </RadioGroup>
+            {publishLater && (
+              <>
+                <Input
+                  type="datetime-local"
+                  value={publishAt}
+                  min={toLocalInput(new Date())}
+                  onChange={(e) => setPublishAt(e.target.value)}
+                />
+                {publishAtInvalid && (
+                  <p className="text-sm text-destructive">Choose a time in the future.</p>
+                )}
+              </>
+            )}
+          </div>
+
+          <Button
+            type="submit"
+            disabled={loading || courseIds.length === 0 || !title.trim() || !body.trim() || publishAtInvalid}
+            className="w-full"
+          >
+            {loading ? 'Publishing...' : publishLater ? 'Schedule Announcement' : 'Publish Announcement'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AnnouncementForm;
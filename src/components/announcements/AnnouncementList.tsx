@@ -0,0 +1,193 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Megaphone, Pin, PinOff, Trash2 } from 'lucide-react';
+
+interface Announcement {
+  id: string;
+  title: string;
+  body: string;
+  is_pinned: boolean;
+  publish_at: string;
+  announcement_courses: {
+    course: {
+      course_code: string;
+    } | null;
+  }[];
+}
+
+interface AnnouncementListProps {
+  refreshTrigger?: number;
+}
+
+const AnnouncementList: React.FC<AnnouncementListProps> = ({ refreshTrigger }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deleting, setDeleting] = useState<Announcement | null>(null);
+
+  const fetchAnnouncements = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('announcements')
+      .select('id, title, body, is_pinned, publish_at, announcement_courses (course:course_id (course_code))')
+      .eq('author_id', user.id)
+      .order('is_pinned', { ascending: false })
+      .order('publish_at', { ascending: false });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load announcements.",
+        variant: "destructive",
+      });
+    } else {
+      setAnnouncements(data || []);
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    fetchAnnouncements();
+  }, [fetchAnnouncements, refreshTrigger]);
+
+  const togglePinned = async (announcement: Announcement) => {
+    const { error } = await supabase
+      .from('announcements')
+      .update({ is_pinned: !announcement.is_pinned })
+      .eq('id', announcement.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update announcement.",
+        variant: "destructive",
+      });
+      return;
+    }
+    fetchAnnouncements();
+  };
+
+  // Its notifications go with it, so a scheduled announcement is never sent
+  const deleteAnnouncement = async () => {
+    if (!deleting) return;
+
+    const { error } = await supabase
+      .from('announcements')
+      .delete()
+      .eq('id', deleting.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete announcement.",
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Announcement deleted",
+        description: `"${deleting.title}" has been removed.`,
+      });
+      fetchAnnouncements();
+    }
+    setDeleting(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>My Announcements</CardTitle>
+        <CardDescription>Scheduled announcements can be deleted before they go out.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : announcements.length === 0 ? (
+          <div className="text-center py-8">
+            <Megaphone className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No announcements yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {announcements.map(announcement => {
+              const scheduled = new Date(announcement.publish_at) > new Date();
+
+              return (
+                <div key={announcement.id} className="p-4 rounded-lg border space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="space-y-1">
+                      <p className="font-medium flex items-center gap-2">
+                        {announcement.is_pinned && <Pin className="h-4 w-4 text-primary" />}
+                        {announcement.title}
+                      </p>
+                      <div className="flex flex-wrap gap-1">
+                        {announcement.announcement_courses.map(({ course }) => course && (
+                          <Badge key={course.course_code} variant="outline">{course.course_code}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Badge variant={scheduled ? 'secondary' : 'info'}>
+                        {scheduled ? 'Scheduled' : 'Published'}
+                      </Badge>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => togglePinned(announcement)}
+                        title={announcement.is_pinned ? 'Unpin' : 'Pin'}
+                      >
+                        {announcement.is_pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setDeleting(announcement)} title="Delete">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">{announcement.body}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {scheduled ? 'Publishes' : 'Published'} {new Date(announcement.publish_at).toLocaleString()}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Students will no longer see it, and any notifications that haven't gone out yet are withdrawn.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction onClick={deleteAnnouncement}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default AnnouncementList;
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Megaphone, Pin } from 'lucide-react';
+
+interface Announcement {
+  id: string;
+  title: string;
+  body: string;
+  is_pinned: boolean;
+  publish_at: string;
+  author: {
+    full_name: string;
+  } | null;
+  announcement_courses: {
+    course: {
+      course_code: string;
+      color: string;
+    } | null;
+  }[];
+}
+
+const PAGE_SIZE = 20;
+
+// Row level security limits this to published announcements for the student's courses
+const AnnouncementsPanel: React.FC = () => {
+  const { user } = useAuth();
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchAnnouncements = async () => {
+      const { data, error } = await supabase
+        .from('announcements')
+        .select(`
+          id,
+          title,
+          body,
+          is_pinned,
+          publish_at,
+          author:author_id (full_name),
+          announcement_courses (course:course_id (course_code, color))
+        `)
+        .lte('publish_at', new Date().toISOString())
+        .order('is_pinned', { ascending: false })
+        .order('publish_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (error) {
+        console.error('Error fetching announcements:', error);
+      } else {
+        setAnnouncements(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchAnnouncements();
+  }, [user]);
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Announcements</CardTitle>
+        <CardDescription>News from the lecturers of your courses</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : announcements.length === 0 ? (
+          <div className="text-center py-8">
+            <Megaphone className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No announcements yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {announcements.map(announcement => (
+              <div
+                key={announcement.id}
+                className={`p-4 rounded-lg border space-y-2 ${announcement.is_pinned ? 'border-primary bg-primary/5' : ''}`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <p className="font-medium flex items-center gap-2">
+                    {announcement.is_pinned && <Pin className="h-4 w-4 text-primary" />}
+                    {announcement.title}
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {announcement.announcement_courses.map(({ course }) => course && (
+                      <Badge
+                        key={course.course_code}
+                        variant="outline"
+                        style={{ borderColor: course.color }}
+                      >
+                        {course.course_code}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <p className="text-sm whitespace-pre-line">{announcement.body}</p>
+                <p className="text-xs text-muted-foreground">
+                  {announcement.author?.full_name ?? 'Your lecturer'} • {new Date(announcement.publish_at).toLocaleString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AnnouncementsPanel;
@@ -5,7 +5,8 @@ import { useToast } from '@/hooks/use-toast';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Trash2, Users, BookOpen } from 'lucide-react';
+import { Trash2, Users, BookOpen, Layers } from 'lucide-react';
+import CourseSectionsDialog from './CourseSectionsDialog';
 
 interface Course {
   id: string;
@@ -30,6 +31,7 @@ const CourseList: React.FC<CourseListProps> = ({ refreshTrigger }) => {
   const { toast } = useToast();
   const [courses, setCourses] = useState<Course[]>([]);
   const [loading, setLoading] = useState(true);
+  const [sectionsCourse, setSectionsCourse] = useState<Course | null>(null);
 
   const fetchCourses = async () => {
     try {
@@ -179,13 +181,23 @@ const CourseList: React.FC<CourseListProps> = ({ refreshTrigger }) => {
                       {course.is_active ? 'Deactivate' : 'Activate'}
                     </Button>
                     {(isAdmin || course.lecturer_id === profile?.id) && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => toggleCourseStatus(course.id, true)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSectionsCourse(course)}
+                        >
+                          <Layers className="h-4 w-4 mr-1" />
+                          Sections
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => toggleCourseStatus(course.id, true)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
                     )}
                   </div>
                 </div>
@@ -194,6 +206,11 @@ const CourseList: React.FC<CourseListProps> = ({ refreshTrigger }) => {
           ))}
         </div>
       )}
+
+      <CourseSectionsDialog
+        course={sectionsCourse}
+        onOpenChange={(open) => !open && setSectionsCourse(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Users } from 'lucide-react';
+
+interface RosterRow {
+  enrollment_id: string;
+  full_name: string;
+  email: string;
+  section: string | null;
+}
+
+interface CourseSectionsDialogProps {
+  course: {
+    id: string;
+    title: string;
+    course_code: string;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Sections are what the reminder compose dialog can target on their own
+const CourseSectionsDialog: React.FC<CourseSectionsDialogProps> = ({ course, onOpenChange }) => {
+  const { toast } = useToast();
+  const [roster, setRoster] = useState<RosterRow[]>([]);
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!course) return;
+
+    const fetchRoster = async () => {
+      setLoading(true);
+      setError(null);
+      setEdits({});
+
+      const { data, error } = await supabase.rpc('course_roster', { p_course_id: course.id });
+
+      if (error) {
+        setError(error.message || 'Failed to load the roster.');
+        setRoster([]);
+      } else {
+        setRoster(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchRoster();
+  }, [course]);
+
+  const changed = roster.filter(
+    row => row.enrollment_id in edits && edits[row.enrollment_id].trim() !== (row.section ?? '')
+  );
+  const sectionNames = [...new Set(roster.map(row => row.section).filter(Boolean) as string[])].sort();
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      for (const row of changed) {
+        const { error } = await supabase.rpc('set_enrollment_section', {
+          p_enrollment_id: row.enrollment_id,
+          p_section: edits[row.enrollment_id],
+        });
+        if (error) throw error;
+      }
+
+      toast({
+        title: 'Sections saved',
+        description: `Updated ${changed.length} student${changed.length === 1 ? '' : 's'}.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message || 'Failed to save sections.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!course} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Sections</DialogTitle>
+          <DialogDescription>
+            Put students of {course?.course_code} in groups such as "A" or "Lab 2" so a reminder can go to one
+            group. Leave a section blank to take a student out of every group.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : roster.length === 0 ? (
+          <div className="text-center py-8">
+            <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No students are enrolled in this course</p>
+          </div>
+        ) : (
+          <ScrollArea className="h-96 pr-4">
+            <datalist id={`sections-${course?.id}`}>
+              {sectionNames.map(name => <option key={name} value={name} />)}
+            </datalist>
+            <div className="space-y-2">
+              {roster.map(row => (
+                <div key={row.enrollment_id} className="flex items-center justify-between gap-4 p-2 rounded-lg border">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{row.full_name}</p>
+                    <p className="text-sm text-muted-foreground truncate">{row.email}</p>
+                  </div>
+                  <Input
+                    className="w-32"
+                    placeholder="No section"
+                    list={`sections-${course?.id}`}
+                    value={edits[row.enrollment_id] ?? row.section ?? ''}
+                    onChange={(e) => setEdits(current => ({ ...current, [row.enrollment_id]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={save} disabled={saving || changed.length === 0}>
+            {saving ? 'Saving...' : 'Save Sections'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CourseSectionsDialog;
@@ -13,6 +13,10 @@ import StudentForm from '@/components/students/StudentForm';
 import LecturerForm from '@/components/lecturers/LecturerForm';
 import LectureForm from '@/components/lectures/LectureForm';
 import LectureList from '@/components/lectures/LectureList';
+import SchedulerStatus from '@/components/SchedulerStatus';
+import InstitutionSettings from '@/components/InstitutionSettings';
+import NotificationTemplates from '@/components/NotificationTemplates';
+import NotificationDeliveries from '@/components/notifications/NotificationDeliveries';
 import { Users, BookOpen, Calendar, TrendingUp, UserPlus, Plus, Eye, CreditCard as Edit, Trash2 } from 'lucide-react';
 
 interface Stats {
@@ -195,11 +199,15 @@ const AdminDashboard = () => {
           <TabsTrigger value="courses">Courses</TabsTrigger>
           <TabsTrigger value="students">Students</TabsTrigger>
           <TabsTrigger value="lecturers">Lecturers</TabsTrigger>
+          <TabsTrigger value="notifications">Notifications</TabsTrigger>
+          <TabsTrigger value="settings">Settings</TabsTrigger>
           {/* <TabsTrigger value="lectures">Lectures</TabsTrigger> */}
           {/* <TabsTrigger value="analytics">Analytics</TabsTrigger> */}
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
+          <SchedulerStatus />
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             {/* Recent Users */}
             <Card className="shadow-card">
@@ -303,6 +311,15 @@ const AdminDashboard = () => {
           <LecturerForm />
         </TabsContent>
 
+        <TabsContent value="notifications" className="space-y-6">
+          <NotificationDeliveries />
+        </TabsContent>
+
+        <TabsContent value="settings" className="space-y-6">
+          <InstitutionSettings />
+          <NotificationTemplates />
+        </TabsContent>
+
         <TabsContent value="lectures" className="space-y-6">
           <LectureForm onSuccess={() => setRefreshTrigger(prev => prev + 1)} />
           <LectureList refreshTrigger={refreshTrigger} />
@@ -7,10 +7,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useLectureUpdates } from '@/hooks/use-lecture-updates';
 import CourseForm from '@/components/courses/CourseForm';
 import CourseList from '@/components/courses/CourseList';
 import LectureForm from '@/components/lectures/LectureForm';
 import LectureList from '@/components/lectures/LectureList';
+import AnnouncementForm from '@/components/announcements/AnnouncementForm';
+import AnnouncementList from '@/components/announcements/AnnouncementList';
 import { 
   BookOpen, 
   Calendar, 
@@ -75,6 +78,15 @@ const LecturerDashboard = () => {
     }
   }, [user]);
 
+  useLectureUpdates({
+    courses,
+    onChange: () => {
+      fetchDashboardData();
+      setRefreshTrigger(prev => prev + 1);
+    },
+    enabled: !!user
+  });
+
   const fetchDashboardData = async () => {
     try {
       // Fetch lecturer's courses
@@ -222,10 +234,11 @@ const LecturerDashboard = () => {
 
       {/* Management Tabs */}
       <Tabs defaultValue="overview" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="courses">My Courses</TabsTrigger>
           <TabsTrigger value="lectures">Lectures</TabsTrigger>
+          <TabsTrigger value="announcements">Announcements</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
@@ -345,6 +358,11 @@ const LecturerDashboard = () => {
           <LectureForm onSuccess={() => setRefreshTrigger(prev => prev + 1)} />
           <LectureList refreshTrigger={refreshTrigger} />
         </TabsContent>
+
+        <TabsContent value="announcements" className="space-y-6">
+          <AnnouncementForm onSuccess={() => setRefreshTrigger(prev => prev + 1)} />
+          <AnnouncementList refreshTrigger={refreshTrigger} />
+        </TabsContent>
       </Tabs>
     </DashboardLayout>
   );
@@ -1,13 +1,18 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import DashboardLayout from '@/components/layout/DashboardLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import AnnouncementsPanel from '@/components/announcements/AnnouncementsPanel';
 import EmailPreferences from '@/components/EmailPreferences';
+import PushNotificationSettings from '@/components/PushNotificationSettings';
+import SmsSettings from '@/components/SmsSettings';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { useLectureUpdates } from '@/hooks/use-lecture-updates';
 import { 
   BookOpen, 
   Calendar, 
@@ -70,14 +75,63 @@ const StudentDashboard = () => {
   const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
   const [upcomingLectures, setUpcomingLectures] = useState<Lecture[]>([]);
   const [loading, setLoading] = useState(true);
+  const [linkedLecture, setLinkedLecture] = useState<Lecture | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
 
+  // Inbox deep links: /dashboard?tab=lectures&lecture=<id>
+  const activeTab = searchParams.get('tab') || 'courses';
+  const linkedLectureId = searchParams.get('lecture');
+
   useEffect(() => {
     if (user) {
       fetchDashboardData();
     }
   }, [user]);
 
+  useLectureUpdates({
+    courses: enrollments.map(enrollment => enrollment.course),
+    enrollmentFilter: `student_id=eq.${user?.id}`,
+    onChange: () => fetchDashboardData(),
+    enabled: !!user
+  });
+
+  useEffect(() => {
+    if (loading || !linkedLectureId) {
+      setLinkedLecture(null);
+      return;
+    }
+
+    const scrollToLecture = () =>
+      document.getElementById(`lecture-${linkedLectureId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    if (upcomingLectures.some(lecture => lecture.id === linkedLectureId)) {
+      setLinkedLecture(null);
+      requestAnimationFrame(scrollToLecture);
+      return;
+    }
+
+    // Cancelled, past or further out than the upcoming list shows
+    const fetchLinkedLecture = async () => {
+      const { data, error } = await supabase
+        .from('lectures')
+        .select(`
+          *,
+          course:course_id (title, course_code, color)
+        `)
+        .eq('id', linkedLectureId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching linked lecture:', error);
+      }
+      setLinkedLecture(data);
+      requestAnimationFrame(scrollToLecture);
+    };
+
+    fetchLinkedLecture();
+  }, [loading, linkedLectureId, upcomingLectures]);
+
   const fetchDashboardData = async () => {
     try {
       // Fetch student's enrollments
@@ -172,6 +226,78 @@ const StudentDashboard = () => {
     return lectureDate.toDateString() === today.toDateString();
   };
 
+  const renderLecture = (lecture: Lecture) => {
+    const dateTime = formatDateTime(lecture.scheduled_at);
+    const isToday = isLectureToday(lecture.scheduled_at);
+    const isLinked = lecture.id === linkedLectureId;
+    const isPast = new Date(lecture.scheduled_at) < new Date();
+    return (
+      <div
+        key={lecture.id}
+        id={`lecture-${lecture.id}`}
+        className={`p-4 rounded-lg border ${isToday ? 'border-primary bg-primary/5' : ''} ${isLinked ? 'ring-2 ring-primary' : ''}`}
+      >
+        <div className="flex items-start justify-between">
+          <div className="flex items-start gap-3">
+            <div 
+              className="w-4 h-4 rounded-full mt-1"
+              style={{ backgroundColor: lecture.course.color }}
+            />
+            <div className="space-y-1">
+              <p className="font-medium">{lecture.title}</p>
+              <p className="text-sm text-muted-foreground">
+                {lecture.course.course_code} - {lecture.course.title}
+              </p>
+              <div className="space-y-1">
+                <div className="flex items-center text-sm text-muted-foreground">
+                  <Calendar className="mr-2 h-4 w-4" />
+                  {dateTime.date} at {dateTime.time}
+                </div>
+                <div className="flex items-center text-sm text-muted-foreground">
+                  <Clock className="mr-2 h-4 w-4" />
+                  {lecture.duration_minutes} minutes
+                </div>
+                {lecture.location && (
+                  <div className="flex items-center text-sm text-muted-foreground">
+                    <MapPin className="mr-2 h-4 w-4" />
+                    {lecture.location}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {lecture.is_cancelled && (
+              <Badge variant="destructive">
+                Cancelled
+              </Badge>
+            )}
+            {isPast && !lecture.is_cancelled && (
+              <Badge variant="secondary">
+                Past
+              </Badge>
+            )}
+            {isToday && !lecture.is_cancelled && (
+              <Badge variant="warning">
+                Today
+              </Badge>
+            )}
+            {lecture.meeting_url && !lecture.is_cancelled && (
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => window.open(lecture.meeting_url, '_blank')}
+              >
+                <ExternalLink className="h-4 w-4 mr-2" />
+                Join Meeting
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   if (loading) {
     return (
       <DashboardLayout title="Student Dashboard">
@@ -242,10 +368,15 @@ const StudentDashboard = () => {
         </Card>
       </div>
 
-      <Tabs defaultValue="courses" className="space-y-6">
+      <Tabs
+        value={activeTab}
+        onValueChange={(tab) => setSearchParams({ tab })}
+        className="space-y-6"
+      >
         <TabsList>
           <TabsTrigger value="courses">My Courses</TabsTrigger>
           <TabsTrigger value="lectures">Upcoming Lectures</TabsTrigger>
+          <TabsTrigger value="announcements">Announcements</TabsTrigger>
           <TabsTrigger value="preferences">Email Preferences</TabsTrigger>
         </TabsList>
 
@@ -319,61 +450,8 @@ const StudentDashboard = () => {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {upcomingLectures.map((lecture) => {
-                  const dateTime = formatDateTime(lecture.scheduled_at);
-                  const isToday = isLectureToday(lecture.scheduled_at);
-                  return (
-                    <div key={lecture.id} className={`p-4 rounded-lg border ${isToday ? 'border-primary bg-primary/5' : ''}`}>
-                      <div className="flex items-start justify-between">
-                        <div className="flex items-start gap-3">
-                          <div 
-                            className="w-4 h-4 rounded-full mt-1"
-                            style={{ backgroundColor: lecture.course.color }}
-                          />
-                          <div className="space-y-1">
-                            <p className="font-medium">{lecture.title}</p>
-                            <p className="text-sm text-muted-foreground">
-                              {lecture.course.course_code} - {lecture.course.title}
-                            </p>
-                            <div className="space-y-1">
-                              <div className="flex items-center text-sm text-muted-foreground">
-                                <Calendar className="mr-2 h-4 w-4" />
-                                {dateTime.date} at {dateTime.time}
-                              </div>
-                              <div className="flex items-center text-sm text-muted-foreground">
-                                <Clock className="mr-2 h-4 w-4" />
-                                {lecture.duration_minutes} minutes
-                              </div>
-                              {lecture.location && (
-                                <div className="flex items-center text-sm text-muted-foreground">
-                                  <MapPin className="mr-2 h-4 w-4" />
-                                  {lecture.location}
-                                </div>
-                              )}
-                            </div>
-                          </div>
-                        </div>
-                        <div className="flex items-center gap-2">
-                          {isToday && (
-                            <Badge variant="warning">
-                              Today
-                            </Badge>
-                          )}
-                          {lecture.meeting_url && (
-                            <Button 
-                              variant="outline" 
-                              size="sm"
-                              onClick={() => window.open(lecture.meeting_url, '_blank')}
-                            >
-                              <ExternalLink className="h-4 w-4 mr-2" />
-                              Join Meeting
-                            </Button>
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  );
-                })}
+                {linkedLecture && renderLecture(linkedLecture)}
+                {upcomingLectures.map(renderLecture)}
                 {upcomingLectures.length === 0 && (
                   <div className="text-center py-8">
                     <Calendar className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -385,8 +463,14 @@ const StudentDashboard = () => {
           </Card>
         </TabsContent>
 
-        <TabsContent value="preferences">
+        <TabsContent value="announcements">
+          <AnnouncementsPanel />
+        </TabsContent>
+
+        <TabsContent value="preferences" className="space-y-6">
           <EmailPreferences />
+          <PushNotificationSettings />
+          <SmsSettings />
         </TabsContent>
       </Tabs>
     </DashboardLayout>
@@ -9,6 +9,7 @@ import {
   DropdownMenuTrigger,
   DropdownMenuSeparator 
 } from '@/components/ui/dropdown-menu';
+import NotificationBell from '@/components/notifications/NotificationBell';
 import { GraduationCap, LogOut, User, Settings } from 'lucide-react';
 
 interface DashboardLayoutProps {
@@ -60,6 +61,8 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children, title, subt
           </div>
 
           <div className="flex items-center gap-4">
+            <NotificationBell />
+
             <div className="hidden sm:flex items-center gap-2">
               <span className={`text-xs px-2 py-1 rounded-full ${getRoleBadgeColor(profile?.role || '')}`}>
                 {profile?.role?.toUpperCase()}
@@ -2,9 +2,22 @@ import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useNotificationBatch } from '@/hooks/use-notification-batch';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import emailjs from '@emailjs/browser';
+import ReminderComposeDialog from '@/components/lectures/ReminderComposeDialog';
+import LectureNotificationPreviewDialog from '@/components/lectures/LectureNotificationPreviewDialog';
 import { 
   Calendar, 
   Clock, 
@@ -13,7 +26,8 @@ import {
   Send,
   Users,
   Edit,
-  Trash2
+  Trash2,
+  Ban
 } from 'lucide-react';
 
 interface Lecture {
@@ -25,6 +39,7 @@ interface Lecture {
   location: string;
   meeting_url: string;
   is_cancelled: boolean;
+  cancellation_reason?: string | null;
   course: {
     id: string;
     title: string;
@@ -39,8 +54,14 @@ interface LectureCardProps {
 }
 
 const LectureCard: React.FC<LectureCardProps> = ({ lecture, onUpdate }) => {
-  const [sendingReminder, setSendingReminder] = useState(false);
+  const [composeOpen, setComposeOpen] = useState(false);
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const [reminderBatchId, setReminderBatchId] = useState<string | null>(null);
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  const [cancellationReason, setCancellationReason] = useState('');
+  const [cancelling, setCancelling] = useState(false);
   const { toast } = useToast();
+  const reminderProgress = useNotificationBatch(reminderBatchId);
 
   const formatDateTime = (dateString: string) => {
     const date = new Date(dateString);
@@ -62,147 +83,37 @@ const LectureCard: React.FC<LectureCardProps> = ({ lecture, onUpdate }) => {
     return lectureDate < now;
   };
 
-  const sendLectureReminder = async () => {
-    setSendingReminder(true);
+  const cancelLecture = async () => {
+    setCancelling(true);
     try {
-      // Get enrolled students for this course
-      const { data: enrollments, error: enrollmentsError } = await supabase
-        .from('enrollments')
-        .select(`
-          student_id,
-          profiles!enrollments_student_id_fkey(
-            id,
-            full_name,
-            email,
-            notification_email
-          )
-        `)
-        .eq('course_id', lecture.course.id)
-        .eq('is_active', true);
+      // The lecture trigger withdraws queued reminders and notifies students
+      const { error } = await supabase
+        .from('lectures')
+        .update({
+          is_cancelled: true,
+          cancellation_reason: cancellationReason.trim() || null,
+          cancelled_at: new Date().toISOString()
+        })
+        .eq('id', lecture.id);
 
-      if (enrollmentsError) {
-        throw enrollmentsError;
-      }
-
-      if (!enrollments || enrollments.length === 0) {
-        toast({
-          title: "No students enrolled",
-          description: "There are no students enrolled in this course.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Get email preferences for each student (for notification email only)
-      const studentIds = enrollments.map(e => e.student_id);
-      const { data: emailPreferences } = await supabase
-        .from('email_preferences')
-        .select('user_id, notification_email')
-        .in('user_id', studentIds);
-
-      const emailPrefsMap = new Map(
-        emailPreferences?.map(pref => [pref.user_id, pref]) || []
-      );
-
-      // Send emails to ALL students (reminders are mandatory)
-      const emailsSent = [];
-      const notifications = [];
-      const dateTime = formatDateTime(lecture.scheduled_at);
-      
-      for (const enrollment of enrollments) {
-        const profile = enrollment.profiles;
-        const emailPref = emailPrefsMap.get(enrollment.student_id);
-
-        // Use notification email from preferences or fall back to profile email
-        const studentEmail = emailPref?.notification_email || profile.notification_email || profile.email;
-        console.log(`📧 Sending mandatory reminder to ${profile.full_name} at ${studentEmail}`);
-
-        try {
-          // Send email via EmailJS
-          await emailjs.send(
-            'service_3ux4e79', // EmailJS service ID
-            'template_3smtuc7', // Your template ID
-            {
-              to_email: studentEmail,
-              student_name: profile.full_name,
-              lecture_title: lecture.title,
-              course_title: `${lecture.course.course_code} - ${lecture.course.title}`,
-              lecture_date: dateTime.date,
-              lecture_time: dateTime.time,
-              duration_minutes: lecture.duration_minutes,
-              location: lecture.location || 'Online',
-              meeting_url: lecture.meeting_url || '',
-              description: lecture.description || ''
-            },
-            'iqrbya988WpE1wUcR' // Your public key
-          );
-
-          emailsSent.push(studentEmail);
-          console.log(`✅ Email sent successfully to ${studentEmail}`);
-
-          // Create notification record for successful send
-          notifications.push({
-            lecture_id: lecture.id,
-            recipient_id: enrollment.student_id,
-            email: studentEmail,
-            subject: `Reminder: ${lecture.title}`,
-            message: `Lecture reminder sent for ${lecture.course.course_code} - ${lecture.title} on ${dateTime.date} at ${dateTime.time}`,
-            status: 'sent',
-            sent_at: new Date().toISOString(),
-            scheduled_for: new Date().toISOString()
-          });
-
-        } catch (emailError) {
-          console.error(`❌ Failed to send email to ${studentEmail}:`, emailError);
-          
-          // Create notification record for failed send
-          notifications.push({
-            lecture_id: lecture.id,
-            recipient_id: enrollment.student_id,
-            email: studentEmail,
-            subject: `Reminder: ${lecture.title}`,
-            message: `Failed to send lecture reminder for ${lecture.course.course_code} - ${lecture.title}`,
-            status: 'failed',
-            error_message: emailError.message || 'Unknown error',
-            scheduled_for: new Date().toISOString()
-          });
-        }
-      }
-
-      if (emailsSent.length === 0) {
-        toast({
-          title: "No emails sent",
-          description: "No reminders were sent. Check student preferences or try again.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Insert notification records into the database
-      if (notifications.length > 0) {
-        const { error: insertError } = await supabase
-          .from('notifications')
-          .insert(notifications);
-
-        if (insertError) {
-          console.error('Error saving notification records:', insertError);
-        }
-      }
+      if (error) throw error;
 
       toast({
-        title: "Reminders sent!",
-        description: `Email reminders sent to ${emailsSent.length} student(s).`,
+        title: "Lecture cancelled",
+        description: "Enrolled students will be notified of the cancellation.",
       });
-
-    } catch (error: any) {
-      console.error('Error sending lecture reminder:', error);
+      setCancelDialogOpen(false);
+      setCancellationReason('');
+      onUpdate?.();
+    } catch (error) {
+      console.error('Error cancelling lecture:', error);
       toast({
         title: "Error",
-        description: error.message || "Failed to send lecture reminders.",
+        description: (error as Error).message || "Failed to cancel lecture.",
         variant: "destructive",
       });
     } finally {
-      setSendingReminder(false);
+      setCancelling(false);
     }
   };
 
@@ -244,6 +155,12 @@ const LectureCard: React.FC<LectureCardProps> = ({ lecture, onUpdate }) => {
               {lecture.description}
             </p>
           )}
+
+          {lecture.is_cancelled && lecture.cancellation_reason && (
+            <p className="text-sm text-destructive">
+              Cancelled: {lecture.cancellation_reason}
+            </p>
+          )}
           
           <div className="space-y-2">
             <div className="flex items-center text-sm text-muted-foreground">
@@ -262,16 +179,37 @@ const LectureCard: React.FC<LectureCardProps> = ({ lecture, onUpdate }) => {
             )}
           </div>
 
+          {reminderProgress && reminderProgress.total > 0 && (
+            <div className="space-y-1">
+              <Progress value={((reminderProgress.total - reminderProgress.inFlight) / reminderProgress.total) * 100} />
+              <p className="text-xs text-muted-foreground">
+                {reminderProgress.done ? 'Reminder sent' : 'Sending reminder'}: {reminderProgress.sent} of {reminderProgress.total} delivered
+                {reminderProgress.failed > 0 && `, ${reminderProgress.failed} failed`}
+              </p>
+            </div>
+          )}
+
           <div className="flex flex-wrap gap-2 pt-2">
             <Button
               variant="outline"
               size="sm"
-              onClick={sendLectureReminder}
-              disabled={sendingReminder}
+              onClick={() => setComposeOpen(true)}
+              disabled={lecture.is_cancelled || (reminderProgress !== null && !reminderProgress.done)}
               className="flex items-center gap-2"
             >
               <Send className="h-4 w-4" />
-              {sendingReminder ? 'Sending...' : 'Send Reminder'}
+              Send Reminder
+            </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPreviewOpen(true)}
+              disabled={lecture.is_cancelled}
+              className="flex items-center gap-2"
+            >
+              <Users className="h-4 w-4" />
+              Preview Notifications
             </Button>
             
             {lecture.meeting_url && (
@@ -289,12 +227,67 @@ const LectureCard: React.FC<LectureCardProps> = ({ lecture, onUpdate }) => {
               <Edit className="h-4 w-4" />
             </Button>
             
+            {!lecture.is_cancelled && !isPast && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setCancelDialogOpen(true)}
+                title="Cancel lecture"
+              >
+                <Ban className="h-4 w-4" />
+              </Button>
+            )}
+            
             <Button variant="ghost" size="sm">
               <Trash2 className="h-4 w-4" />
             </Button>
           </div>
         </div>
       </CardContent>
+
+      <ReminderComposeDialog
+        lecture={lecture}
+        open={composeOpen}
+        onOpenChange={setComposeOpen}
+        onQueued={setReminderBatchId}
+      />
+
+      <LectureNotificationPreviewDialog
+        courseId={lecture.course.id}
+        lectureId={lecture.id}
+        scheduledAt={lecture.scheduled_at}
+        open={previewOpen}
+        onOpenChange={setPreviewOpen}
+      />
+
+      <Dialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel {lecture.title}?</DialogTitle>
+            <DialogDescription>
+              Pending reminders are withdrawn and every enrolled student is sent a cancellation notice.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`cancellation-reason-${lecture.id}`}>Reason (optional)</Label>
+            <Textarea
+              id={`cancellation-reason-${lecture.id}`}
+              value={cancellationReason}
+              onChange={(e) => setCancellationReason(e.target.value)}
+              placeholder="e.g. Lecturer unwell, the lecture will be rescheduled"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelDialogOpen(false)} disabled={cancelling}>
+              Keep Lecture
+            </Button>
+            <Button variant="destructive" onClick={cancelLecture} disabled={cancelling}>
+              {cancelling ? 'Cancelling...' : 'Cancel Lecture'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 };
@@ -8,6 +8,8 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import LectureNotificationPreviewDialog from '@/components/lectures/LectureNotificationPreviewDialog';
+import { Users } from 'lucide-react';
 
 interface Course {
   id: string;
@@ -45,6 +47,7 @@ const LectureForm: React.FC<LectureFormProps> = ({ onSuccess }) => {
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
   const [customTitle, setCustomTitle] = useState('');
   const [useCustomTitle, setUseCustomTitle] = useState(false);
+  const [previewOpen, setPreviewOpen] = useState(false);
 
   const getDefaultDateTime = () => {
     const now = new Date();
@@ -286,11 +289,31 @@ const LectureForm: React.FC<LectureFormProps> = ({ onSuccess }) => {
             </div>
           </div>
 
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setPreviewOpen(true)}
+            disabled={!formData.course_id || !formData.scheduled_at}
+            className="w-full flex items-center gap-2"
+          >
+            <Users className="h-4 w-4" />
+            Preview Notifications
+          </Button>
+
           <Button type="submit" disabled={loading} className="w-full">
             {loading ? 'Scheduling...' : 'Schedule Lecture'}
           </Button>
         </form>
       </CardContent>
+
+      {previewOpen && (
+        <LectureNotificationPreviewDialog
+          courseId={formData.course_id}
+          scheduledAt={new Date(formData.scheduled_at).toISOString()}
+          open={previewOpen}
+          onOpenChange={setPreviewOpen}
+        />
+      )}
     </Card>
   );
 };
@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { Users } from 'lucide-react';
+
+interface PreviewRow {
+  recipient_id: string;
+  full_name: string;
+  email: string;
+  email_source: string;
+  email_suppressed: boolean;
+  kind: string;
+  offset_minutes: number | null;
+  send_at: string | null;
+  channels: string[];
+  skipped_reason: string | null;
+}
+
+interface Recipient {
+  id: string;
+  fullName: string;
+  email: string;
+  emailSource: string;
+  emailSuppressed: boolean;
+  rows: PreviewRow[];
+}
+
+interface LectureNotificationPreviewDialogProps {
+  courseId: string;
+  /** ISO time the lecture is (or would be) scheduled for. */
+  scheduledAt: string;
+  /** Leave out for a lecture that hasn't been saved yet. */
+  lectureId?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMAIL_SOURCE_LABELS: Record<string, string> = {
+  preferences: 'Notification email',
+  profile: 'Profile notification email',
+  account: 'Account email',
+};
+
+const KIND_LABELS: Record<string, string> = {
+  scheduled: 'New lecture notice',
+  rescheduled: 'Reschedule notice',
+  reminder: 'Reminder',
+};
+
+const formatOffset = (minutes: number) => {
+  if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? '' : 's'} before`;
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'} before`;
+  return `${minutes} minutes before`;
+};
+
+const groupByRecipient = (rows: PreviewRow[]) => {
+  const recipients = new Map<string, Recipient>();
+
+  rows.forEach(row => {
+    const recipient = recipients.get(row.recipient_id) ?? {
+      id: row.recipient_id,
+      fullName: row.full_name,
+      email: row.email,
+      emailSource: row.email_source,
+      emailSuppressed: row.email_suppressed,
+      rows: [],
+    };
+    recipient.rows.push(row);
+    recipients.set(row.recipient_id, recipient);
+  });
+
+  return Array.from(recipients.values());
+};
+
+// A dry run: nothing is queued until the lecture is actually saved
+const LectureNotificationPreviewDialog: React.FC<LectureNotificationPreviewDialogProps> = ({
+  courseId,
+  scheduledAt,
+  lectureId,
+  open,
+  onOpenChange,
+}) => {
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchPreview = async () => {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase.rpc('preview_lecture_notifications', {
+        p_course_id: courseId,
+        p_scheduled_at: scheduledAt,
+        p_lecture_id: lectureId,
+      });
+
+      if (error) {
+        setError(error.message || 'Failed to preview notifications.');
+        setRows([]);
+      } else {
+        setRows(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchPreview();
+  }, [open, courseId, scheduledAt, lectureId]);
+
+  const recipients = groupByRecipient(rows);
+  const deliveredCount = rows.filter(row => !row.skipped_reason).length;
+  const skippedCount = rows.length - deliveredCount;
+  const suppressedCount = recipients.filter(recipient => recipient.emailSuppressed).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Notification Preview</DialogTitle>
+          <DialogDescription>
+            Who will be notified for a lecture on {new Date(scheduledAt).toLocaleString()}, at which address and when.
+            Nothing is sent from here.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : recipients.length === 0 ? (
+          <div className="text-center py-8">
+            <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No students are enrolled in this course</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{recipients.length} students</Badge>
+              <Badge variant="success">{deliveredCount} notifications</Badge>
+              {skippedCount > 0 && <Badge variant="secondary">{skippedCount} skipped</Badge>}
+              {suppressedCount > 0 && <Badge variant="destructive">{suppressedCount} suppressed addresses</Badge>}
+            </div>
+
+            <ScrollArea className="h-96 pr-4">
+              <div className="space-y-3">
+                {recipients.map(recipient => (
+                  <div key={recipient.id} className="p-3 rounded-lg border space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="font-medium">{recipient.fullName}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {recipient.email} · {EMAIL_SOURCE_LABELS[recipient.emailSource] ?? recipient.emailSource}
+                        </p>
+                      </div>
+                      {recipient.emailSuppressed && <Badge variant="destructive">Suppressed</Badge>}
+                    </div>
+                    <ul className="space-y-1 text-sm">
+                      {recipient.rows.map(row => (
+                        <li
+                          key={`${row.kind}-${row.offset_minutes ?? 'notice'}`}
+                          className={`flex flex-wrap items-center gap-x-2 ${row.skipped_reason ? 'text-muted-foreground' : ''}`}
+                        >
+                          <span className="font-medium">
+                            {KIND_LABELS[row.kind] ?? row.kind}
+                            {row.offset_minutes !== null && ` (${formatOffset(row.offset_minutes)})`}
+                          </span>
+                          {row.skipped_reason ? (
+                            <span>— {row.skipped_reason}</span>
+                          ) : (
+                            <>
+                              <span>
+                                {row.kind === 'reminder' && row.send_at
+                                  ? new Date(row.send_at).toLocaleString()
+                                  : 'When saved'}
+                              </span>
+                              {row.channels.map(channel => (
+                                <Badge key={channel} variant="outline" className="capitalize">{channel}</Badge>
+                              ))}
+                            </>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LectureNotificationPreviewDialog;
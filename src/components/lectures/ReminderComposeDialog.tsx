@@ -0,0 +1,330 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Eye, Send } from 'lucide-react';
+
+const NOTE_MAX_LENGTH = 500;
+
+type Audience = 'all' | 'unconfirmed' | 'section';
+
+interface ReminderPreview {
+  subject: string;
+  html: string;
+  recipient_name: string | null;
+}
+
+interface ReminderComposeDialogProps {
+  lecture: {
+    id: string;
+    title: string;
+    scheduled_at: string;
+    course: { id: string };
+  };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called when reminders are queued to go out now, with the batch to follow. */
+  onQueued: (batchId: string) => void;
+}
+
+// datetime-local wants the browser's local time without a zone
+const toLocalInput = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const defaultSendAt = () => {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return toLocalInput(date);
+};
+
+const ReminderComposeDialog: React.FC<ReminderComposeDialogProps> = ({ lecture, open, onOpenChange, onQueued }) => {
+  const { toast } = useToast();
+  const [note, setNote] = useState('');
+  const [audience, setAudience] = useState<Audience>('all');
+  const [section, setSection] = useState('');
+  const [sections, setSections] = useState<string[]>([]);
+  const [timing, setTiming] = useState<'now' | 'later'>('now');
+  const [sendAt, setSendAt] = useState(defaultSendAt);
+  const [preview, setPreview] = useState<ReminderPreview | null>(null);
+  const [recipientCount, setRecipientCount] = useState<number | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    // Lecturers can't read enrollments directly; the roster is checked against the course
+    const fetchSections = async () => {
+      const { data, error } = await supabase.rpc('course_roster', { p_course_id: lecture.course.id });
+
+      if (error) {
+        console.error('Error fetching sections:', error);
+        return;
+      }
+
+      setSections([...new Set((data || []).map(row => row.section).filter(Boolean))].sort());
+    };
+
+    fetchSections();
+  }, [open, lecture.course.id]);
+
+  // A preview only describes the message it was rendered for
+  useEffect(() => {
+    setPreview(null);
+    setRecipientCount(null);
+  }, [note, audience, section]);
+
+  const requestBody = (extra: Record<string, unknown> = {}) => ({
+    lecture_id: lecture.id,
+    note: note.trim() || undefined,
+    audience,
+    section: audience === 'section' ? section : undefined,
+    ...extra,
+  });
+
+  const invoke = async (body: Record<string, unknown>) => {
+    const { data, error } = await supabase.functions.invoke('queue-lecture-reminder', { body });
+    if (error) {
+      const details = await (error as { context?: Response }).context?.json?.().catch(() => null);
+      throw new Error(details?.error || error.message);
+    }
+    return data;
+  };
+
+  const loadPreview = async () => {
+    setPreviewing(true);
+    try {
+      const data = await invoke(requestBody({ preview: true }));
+      setPreview(data.preview);
+      setRecipientCount(data.recipients);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to preview the reminder.",
+        variant: "destructive",
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const send = async () => {
+    setSending(true);
+    try {
+      const later = timing === 'later';
+      const data = await invoke(requestBody({
+        send_at: later ? new Date(sendAt).toISOString() : undefined,
+      }));
+
+      if (data.enrolled === 0) {
+        toast({
+          title: "No students to remind",
+          description: audience === 'section'
+            ? `No students are enrolled in section ${section}.`
+            : "There are no students enrolled in this course.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (data.queued === 0) {
+        toast({
+          title: "No reminders sent",
+          description: data.already_queued > 0
+            ? "The same reminder is already queued for that minute."
+            : data.opted_out > 0
+            ? "Every student in this audience has turned reminders off."
+            : "Every student has already read a notice about this lecture.",
+        });
+        return;
+      }
+
+      if (later) {
+        toast({
+          title: "Reminder scheduled",
+          description: `${data.queued} student(s) will be reminded on ${new Date(data.scheduled_for).toLocaleString()}.`,
+        });
+      } else {
+        onQueued(data.batch_id);
+
+        // Deliver right away rather than waiting for the next processing run
+        const { error: processError } = await supabase.functions.invoke('process-notifications', {
+          body: { trigger: 'manual-reminder' }
+        });
+        if (processError) {
+          console.error('Error triggering notification processing:', processError);
+        }
+      }
+
+      setNote('');
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error sending lecture reminder:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to send lecture reminders.",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const sectionMissing = audience === 'section' && !section;
+  const sendAtInvalid = timing === 'later' && (
+    !sendAt ||
+    new Date(sendAt) <= new Date() ||
+    new Date(sendAt) >= new Date(lecture.scheduled_at)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Remind students about {lecture.title}</DialogTitle>
+          <DialogDescription>
+            Students get the reminder on every channel they've chosen for reminders.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`reminder-note-${lecture.id}`}>Note (optional)</Label>
+            <Textarea
+              id={`reminder-note-${lecture.id}`}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="e.g. Bring your lab coat"
+              maxLength={NOTE_MAX_LENGTH}
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground text-right">
+              {note.length} / {NOTE_MAX_LENGTH}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Send to</Label>
+            <RadioGroup value={audience} onValueChange={(value) => setAudience(value as Audience)}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="all" id={`audience-all-${lecture.id}`} />
+                <Label htmlFor={`audience-all-${lecture.id}`} className="font-normal">All enrolled students</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="unconfirmed" id={`audience-unconfirmed-${lecture.id}`} />
+                <Label htmlFor={`audience-unconfirmed-${lecture.id}`} className="font-normal">
+                  Students who haven't read a notice about this lecture
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem
+                  value="section"
+                  id={`audience-section-${lecture.id}`}
+                  disabled={sections.length === 0}
+                />
+                <Label htmlFor={`audience-section-${lecture.id}`} className="font-normal">
+                  One section{sections.length === 0 && ' (assign sections from the course list first)'}
+                </Label>
+              </div>
+            </RadioGroup>
+            {audience === 'section' && (
+              <Select value={section} onValueChange={setSection}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a section" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sections.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>When</Label>
+            <RadioGroup value={timing} onValueChange={(value) => setTiming(value as 'now' | 'later')}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="now" id={`timing-now-${lecture.id}`} />
+                <Label htmlFor={`timing-now-${lecture.id}`} className="font-normal">Now</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="later" id={`timing-later-${lecture.id}`} />
+                <Label htmlFor={`timing-later-${lecture.id}`} className="font-normal">Later</Label>
+              </div>
+            </RadioGroup>
+            {timing === 'later' && (
+              <>
+                <Input
+                  type="datetime-local"
+                  value={sendAt}
+                  min={toLocalInput(new Date())}
+                  max={toLocalInput(new Date(lecture.scheduled_at))}
+                  onChange={(e) => setSendAt(e.target.value)}
+                />
+                {sendAtInvalid && (
+                  <p className="text-sm text-destructive">Choose a time between now and the start of the lecture.</p>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Preview</Label>
+              <Button variant="outline" size="sm" onClick={loadPreview} disabled={previewing || sectionMissing}>
+                <Eye className="h-4 w-4 mr-2" />
+                {previewing ? 'Rendering...' : preview ? 'Refresh Preview' : 'Show Preview'}
+              </Button>
+            </div>
+            {preview ? (
+              <div className="rounded-md border">
+                <div className="border-b px-4 py-2 text-sm font-medium">{preview.subject}</div>
+                <iframe
+                  title="Reminder preview"
+                  sandbox=""
+                  className="w-full h-56 bg-white"
+                  srcDoc={`<body style="font-family: sans-serif; font-size: 14px;">${preview.html}</body>`}
+                />
+              </div>
+            ) : recipientCount === 0 ? (
+              <p className="text-sm text-muted-foreground">No students match this audience.</p>
+            ) : null}
+            {recipientCount !== null && recipientCount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Shown as {preview?.recipient_name || 'a student'} will see it. Goes to {recipientCount} student(s).
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={sending}>
+            Cancel
+          </Button>
+          <Button onClick={send} disabled={sending || sectionMissing || sendAtInvalid}>
+            <Send className="h-4 w-4 mr-2" />
+            {sending ? 'Sending...' : timing === 'later' ? 'Schedule Reminder' : 'Send Reminder'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReminderComposeDialog;
@@ -0,0 +1,248 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/enhanced-button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { NOTIFICATION_KINDS } from '@/lib/notificationTemplates';
+import { cn } from '@/lib/utils';
+import { Bell, CheckCheck } from 'lucide-react';
+
+type NotificationRow = Database['public']['Tables']['notifications']['Row'];
+
+// Digests and announcements are not about a lecture, so `lecture_id` can be null
+interface InboxNotification extends Pick<NotificationRow, 'lecture_id' | 'announcement_id'> {
+  id: string;
+  kind: string;
+  subject: string | null;
+  message: string | null;
+  scheduled_for: string;
+  read_at: string | null;
+  lecture: {
+    title: string;
+  } | null;
+}
+
+const PAGE_SIZE = 10;
+
+// Rows are rendered when the email goes out, so due-but-unsent ones have no subject yet
+const getTitle = (notification: InboxNotification) => {
+  if (notification.subject) return notification.subject;
+  const label = NOTIFICATION_KINDS.find(kind => kind.value === notification.kind)?.label ?? 'Notification';
+  return notification.lecture ? `${label}: ${notification.lecture.title}` : label;
+};
+
+const getLink = (notification: InboxNotification) =>
+  notification.lecture_id
+    ? `/dashboard?tab=lectures&lecture=${notification.lecture_id}`
+    : notification.announcement_id
+    ? '/dashboard?tab=announcements'
+    : '/dashboard?tab=lectures';
+
+// What belongs in the inbox: due, wanted in the app, and not withdrawn by a reschedule or cancellation
+const inboxQuery = (userId: string, columns: string, options?: { count: 'exact'; head: true }) =>
+  supabase
+    .from('notifications')
+    .select(columns, options)
+    .eq('recipient_id', userId)
+    .contains('channels', ['in_app'])
+    .lte('scheduled_for', new Date().toISOString())
+    .not('status', 'in', '(superseded,cancelled)');
+
+const NotificationBell: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const openRef = useRef(open);
+  openRef.current = open;
+
+  const fetchUnreadCount = useCallback(async () => {
+    if (!user) return;
+
+    const { count, error } = await inboxQuery(user.id, 'id', { count: 'exact', head: true })
+      .is('read_at', null);
+
+    if (error) {
+      console.error('Error fetching unread notifications:', error);
+    } else {
+      setUnreadCount(count || 0);
+    }
+  }, [user]);
+
+  const fetchPage = useCallback(async (offset: number) => {
+    if (!user) return;
+
+    setLoading(true);
+    const { data, error } = await inboxQuery(
+      user.id,
+      'id, kind, subject, message, scheduled_for, read_at, lecture_id, announcement_id, lecture:lecture_id (title)'
+    )
+      .order('scheduled_for', { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching notifications:', error);
+    } else {
+      const page = (data || []) as unknown as InboxNotification[];
+      setNotifications(prev => (offset === 0 ? page : [...prev, ...page]));
+      setHasMore(page.length === PAGE_SIZE);
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    fetchUnreadCount();
+  }, [fetchUnreadCount]);
+
+  // Sending, superseding and reading all update the row, so one subscription covers the inbox
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`inbox-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `recipient_id=eq.${user.id}` },
+        () => {
+          fetchUnreadCount();
+          if (openRef.current) {
+            fetchPage(0);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchUnreadCount, fetchPage]);
+
+  useEffect(() => {
+    if (open) {
+      fetchPage(0);
+    }
+  }, [open, fetchPage]);
+
+  const markRead = async (ids: string[]) => {
+    const { error } = await supabase.rpc('mark_notifications_read', { p_ids: ids });
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      return;
+    }
+
+    const now = new Date().toISOString();
+    setNotifications(prev => prev.map(n => (ids.includes(n.id) && !n.read_at ? { ...n, read_at: now } : n)));
+    fetchUnreadCount();
+  };
+
+  const markAllRead = async () => {
+    const { error } = await supabase.rpc('mark_all_notifications_read');
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to mark notifications as read.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const now = new Date().toISOString();
+    setNotifications(prev => prev.map(n => ({ ...n, read_at: n.read_at ?? now })));
+    setUnreadCount(0);
+  };
+
+  const openNotification = (notification: InboxNotification) => {
+    if (!notification.read_at) {
+      markRead([notification.id]);
+    }
+    setOpen(false);
+    navigate(getLink(notification));
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs font-medium flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-0" align="end">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="font-medium">Notifications</p>
+          <Button variant="ghost" size="sm" onClick={markAllRead} disabled={unreadCount === 0}>
+            <CheckCheck className="h-4 w-4 mr-2" />
+            Mark all read
+          </Button>
+        </div>
+        <ScrollArea className="h-96">
+          {notifications.map(notification => (
+            <button
+              key={notification.id}
+              type="button"
+              onClick={() => openNotification(notification)}
+              className={cn(
+                'w-full text-left px-4 py-3 border-b hover:bg-muted/50 flex gap-3',
+                !notification.read_at && 'bg-primary/5'
+              )}
+            >
+              <span
+                className={cn(
+                  'mt-1.5 h-2 w-2 rounded-full shrink-0',
+                  notification.read_at ? 'bg-transparent' : 'bg-primary'
+                )}
+              />
+              <div className="space-y-1 min-w-0">
+                <p className={cn('text-sm', !notification.read_at && 'font-medium')}>
+                  {getTitle(notification)}
+                </p>
+                {notification.message && (
+                  <p className="text-xs text-muted-foreground line-clamp-2 whitespace-pre-line">
+                    {notification.message}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(notification.scheduled_for), { addSuffix: true })}
+                </p>
+              </div>
+            </button>
+          ))}
+          {!loading && notifications.length === 0 && (
+            <div className="text-center py-12">
+              <Bell className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+              <p className="text-sm text-muted-foreground">No notifications yet</p>
+            </div>
+          )}
+          {hasMore && (
+            <div className="p-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full"
+                onClick={() => fetchPage(notifications.length)}
+                disabled={loading}
+              >
+                {loading ? 'Loading...' : 'Load more'}
+              </Button>
+            </div>
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
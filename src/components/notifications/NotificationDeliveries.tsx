@@ -0,0 +1,454 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { NOTIFICATION_KINDS } from '@/lib/notificationTemplates';
+import NotificationDeliveryChart from '@/components/notifications/NotificationDeliveryChart';
+import NotificationTimelineDialog from '@/components/notifications/NotificationTimelineDialog';
+import { History, Mail, RefreshCw, RotateCcw } from 'lucide-react';
+
+type NotificationStatus = Database['public']['Enums']['notification_status'];
+
+interface Delivery {
+  id: string;
+  kind: string;
+  email: string;
+  status: NotificationStatus | null;
+  scheduled_for: string;
+  sent_at: string | null;
+  attempts: number;
+  max_attempts: number;
+  error_message: string | null;
+  status_reason: string | null;
+  recipient: {
+    full_name: string | null;
+  } | null;
+  lecture: {
+    title: string;
+    course: {
+      course_code: string;
+    } | null;
+  } | null;
+}
+
+interface CourseOption {
+  id: string;
+  course_code: string;
+  title: string;
+}
+
+interface LectureOption {
+  id: string;
+  title: string;
+  scheduled_at: string;
+}
+
+const PAGE_SIZE = 50;
+const ALL = 'all';
+
+const STATUSES: { value: NotificationStatus; label: string; variant: BadgeProps['variant'] }[] = [
+  { value: 'pending', label: 'Queued', variant: 'secondary' },
+  { value: 'processing', label: 'Sending', variant: 'info' },
+  { value: 'sent', label: 'Sent', variant: 'success' },
+  { value: 'failed', label: 'Retrying', variant: 'warning' },
+  { value: 'dead', label: 'Gave up', variant: 'destructive' },
+  { value: 'superseded', label: 'Superseded', variant: 'outline' },
+  { value: 'cancelled', label: 'Cancelled', variant: 'outline' },
+];
+
+// Only rows that stopped short of delivery can go back in the queue
+const REQUEUEABLE: (NotificationStatus | null)[] = ['failed', 'dead'];
+
+const kindLabel = (kind: string) => NOTIFICATION_KINDS.find(option => option.value === kind)?.label ?? kind;
+
+const NotificationDeliveries: React.FC = () => {
+  const { toast } = useToast();
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [requeueing, setRequeueing] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [timelineFor, setTimelineFor] = useState<Delivery | null>(null);
+
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [lectures, setLectures] = useState<LectureOption[]>([]);
+  const [status, setStatus] = useState<string>(ALL);
+  const [courseId, setCourseId] = useState<string>(ALL);
+  const [lectureId, setLectureId] = useState<string>(ALL);
+  const [recipient, setRecipient] = useState('');
+  const [from, setFrom] = useState(() => format(subDays(new Date(), 13), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+
+  useEffect(() => {
+    const fetchCourses = async () => {
+      const { data, error } = await supabase
+        .from('courses')
+        .select('id, course_code, title')
+        .order('course_code');
+
+      if (error) {
+        console.error('Error fetching courses:', error);
+      } else {
+        setCourses(data || []);
+      }
+    };
+
+    fetchCourses();
+  }, []);
+
+  useEffect(() => {
+    setLectureId(ALL);
+    if (courseId === ALL) {
+      setLectures([]);
+      return;
+    }
+
+    const fetchLectures = async () => {
+      const { data, error } = await supabase
+        .from('lectures')
+        .select('id, title, scheduled_at')
+        .eq('course_id', courseId)
+        .order('scheduled_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching lectures:', error);
+      } else {
+        setLectures(data || []);
+      }
+    };
+
+    fetchLectures();
+  }, [courseId]);
+
+  const fetchDeliveries = useCallback(async () => {
+    setLoading(true);
+
+    let query = supabase
+      .from('notifications')
+      .select(
+        'id, kind, email, status, scheduled_for, sent_at, attempts, max_attempts, error_message, status_reason, ' +
+          'recipient:recipient_id (full_name), lecture:lecture_id (title, course:course_id (course_code))',
+        { count: 'exact' }
+      )
+      .gte('scheduled_for', parseISO(from).toISOString())
+      .lt('scheduled_for', addDays(parseISO(to), 1).toISOString());
+
+    if (status !== ALL) {
+      query = query.eq('status', status as NotificationStatus);
+    }
+    if (lectureId !== ALL) {
+      query = query.eq('lecture_id', lectureId);
+    } else if (courseId !== ALL) {
+      query = query.in('lecture_id', lectures.map(lecture => lecture.id));
+    }
+    if (recipient.trim()) {
+      query = query.ilike('email', `%${recipient.trim()}%`);
+    }
+
+    const { data, count, error } = await query
+      .order('scheduled_for', { ascending: false })
+      .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching deliveries:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load notifications.",
+        variant: "destructive",
+      });
+    } else {
+      setDeliveries((data || []) as unknown as Delivery[]);
+      setTotal(count || 0);
+    }
+    setSelected(new Set());
+    setLoading(false);
+  }, [status, courseId, lectureId, lectures, recipient, from, to, page, toast]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  // A narrower filter starts again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [status, courseId, lectureId, recipient, from, to]);
+
+  const requeueable = deliveries.filter(delivery => REQUEUEABLE.includes(delivery.status));
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(requeueable.map(delivery => delivery.id)) : new Set());
+  };
+
+  const requeueSelected = async () => {
+    setRequeueing(true);
+    try {
+      const { data, error } = await supabase.rpc('requeue_notifications', { p_ids: [...selected] });
+      if (error) throw error;
+
+      // Deliver right away rather than waiting for the next processing run
+      const { error: processError } = await supabase.functions.invoke('process-notifications');
+      if (processError) {
+        console.error('Error triggering notification processing:', processError);
+      }
+
+      toast({
+        title: "Notifications re-queued",
+        description: `${data} notification(s) will be retried.`,
+      });
+      setRefreshKey(prev => prev + 1);
+      fetchDeliveries();
+    } catch (error) {
+      console.error('Error re-queueing notifications:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to re-queue notifications.",
+        variant: "destructive",
+      });
+    } finally {
+      setRequeueing(false);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      <NotificationDeliveryChart
+        from={from}
+        to={to}
+        courseId={courseId === ALL ? null : courseId}
+        refreshKey={refreshKey}
+      />
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              Deliveries
+            </CardTitle>
+            <CardDescription>Every queued notification, with the provider's error when delivery failed</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={fetchDeliveries} disabled={loading}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <Button size="sm" onClick={requeueSelected} disabled={selected.size === 0 || requeueing}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              {requeueing ? 'Re-queueing...' : `Re-queue selected (${selected.size})`}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  {STATUSES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Course</Label>
+              <Select value={courseId} onValueChange={setCourseId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All courses</SelectItem>
+                  {courses.map(course => (
+                    <SelectItem key={course.id} value={course.id}>
+                      {course.course_code}: {course.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Lecture</Label>
+              <Select value={lectureId} onValueChange={setLectureId} disabled={courseId === ALL}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All lectures</SelectItem>
+                  {lectures.map(lecture => (
+                    <SelectItem key={lecture.id} value={lecture.id}>
+                      {lecture.title} ({format(new Date(lecture.scheduled_at), 'd MMM')})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delivery-recipient">Recipient</Label>
+              <Input
+                id="delivery-recipient"
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+                placeholder="Email address"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delivery-from">From</Label>
+              <Input id="delivery-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delivery-to">To</Label>
+              <Input id="delivery-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={requeueable.length > 0 && selected.size === requeueable.length}
+                    onCheckedChange={(checked) => toggleAll(checked === true)}
+                    disabled={requeueable.length === 0}
+                    aria-label="Select all failed notifications"
+                  />
+                </TableHead>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Notification</TableHead>
+                <TableHead>Scheduled</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Error</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map(delivery => {
+                const statusOption = STATUSES.find(option => option.value === delivery.status);
+
+                return (
+                  <TableRow key={delivery.id}>
+                    <TableCell>
+                      {REQUEUEABLE.includes(delivery.status) && (
+                        <Checkbox
+                          checked={selected.has(delivery.id)}
+                          onCheckedChange={(checked) => toggle(delivery.id, checked === true)}
+                          aria-label="Select notification"
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-medium">{delivery.recipient?.full_name || 'Unknown'}</p>
+                      <p className="text-xs text-muted-foreground">{delivery.email}</p>
+                    </TableCell>
+                    <TableCell>
+                      <p>{kindLabel(delivery.kind)}</p>
+                      {delivery.lecture && (
+                        <p className="text-xs text-muted-foreground">
+                          {delivery.lecture.course?.course_code}: {delivery.lecture.title}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {format(new Date(delivery.scheduled_for), 'd MMM yyyy HH:mm')}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusOption?.variant ?? 'outline'}>
+                        {statusOption?.label ?? delivery.status ?? 'Unknown'}
+                      </Badge>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {delivery.attempts}/{delivery.max_attempts} attempts
+                      </p>
+                    </TableCell>
+                    <TableCell className="max-w-sm">
+                      {delivery.error_message && (
+                        <p className="text-xs text-destructive break-words">{delivery.error_message}</p>
+                      )}
+                      {delivery.status_reason && (
+                        <p className="text-xs text-muted-foreground break-words">{delivery.status_reason}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setTimelineFor(delivery)}
+                        title="Timeline"
+                        aria-label="Show delivery timeline"
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {!loading && deliveries.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                    No notifications match these filters
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>{total} notification(s)</span>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(prev => prev - 1)} disabled={page === 0 || loading}>
+                Previous
+              </Button>
+              <span>
+                Page {page + 1} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(prev => prev + 1)}
+                disabled={page + 1 >= pageCount || loading}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <NotificationTimelineDialog
+        notification={timelineFor}
+        onOpenChange={(open) => !open && setTimelineFor(null)}
+      />
+    </div>
+  );
+};
+
+export default NotificationDeliveries;
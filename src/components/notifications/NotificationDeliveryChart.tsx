@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { addDays, eachDayOfInterval, format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import { BarChart3 } from 'lucide-react';
+
+interface DeliveryDay {
+  day: string;
+  sent: number;
+  failed: number;
+  dead: number;
+  pending: number;
+}
+
+interface NotificationDeliveryChartProps {
+  /** First day to chart, as `yyyy-MM-dd`. */
+  from: string;
+  /** Last day to chart, inclusive, as `yyyy-MM-dd`. */
+  to: string;
+  courseId: string | null;
+  /** Bump to refetch, e.g. after a re-queue. */
+  refreshKey?: number;
+}
+
+const chartConfig = {
+  sent: { label: 'Sent', color: 'hsl(var(--success))' },
+  pending: { label: 'Queued', color: 'hsl(var(--muted-foreground))' },
+  failed: { label: 'Retrying', color: 'hsl(var(--warning))' },
+  dead: { label: 'Gave up', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig;
+
+const NotificationDeliveryChart: React.FC<NotificationDeliveryChartProps> = ({ from, to, courseId, refreshKey }) => {
+  const [days, setDays] = useState<DeliveryDay[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchStats = async () => {
+      const start = parseISO(from);
+      const end = parseISO(to);
+      if (end < start) {
+        setDays([]);
+        return;
+      }
+
+      const { data, error } = await supabase.rpc('notification_delivery_stats', {
+        p_from: start.toISOString(),
+        p_to: addDays(end, 1).toISOString(),
+        p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        p_course_id: courseId ?? undefined
+      });
+
+      if (error) {
+        console.error('Error fetching delivery stats:', error);
+        setError(error.message);
+        return;
+      }
+
+      // Days without notifications still get a bar slot
+      const byDay = new Map((data || []).map(row => [row.day, row]));
+      setError(null);
+      setDays(eachDayOfInterval({ start, end }).map(date => {
+        const key = format(date, 'yyyy-MM-dd');
+        const row = byDay.get(key);
+        return {
+          day: key,
+          sent: row?.sent ?? 0,
+          failed: row?.failed ?? 0,
+          dead: row?.dead ?? 0,
+          pending: row?.pending ?? 0,
+        };
+      }));
+    };
+
+    fetchStats();
+  }, [from, to, courseId, refreshKey]);
+
+  const totals = days.reduce(
+    (sum, day) => ({ sent: sum.sent + day.sent, settled: sum.settled + day.sent + day.failed + day.dead }),
+    { sent: 0, settled: 0 }
+  );
+  const deliveryRate = totals.settled > 0 ? Math.round((totals.sent / totals.settled) * 100) : null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            Delivery Rate
+          </CardTitle>
+          <CardDescription>Notifications per day by outcome</CardDescription>
+        </div>
+        {deliveryRate !== null && (
+          <div className="text-right">
+            <p className="text-2xl font-bold">{deliveryRate}%</p>
+            <p className="text-xs text-muted-foreground">{totals.sent} of {totals.settled} delivered</p>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-64 w-full">
+            <BarChart data={days}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="day"
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(value: string) => format(parseISO(value), 'd MMM')}
+              />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent labelFormatter={(value: string) => format(parseISO(value), 'EEE d MMM yyyy')} />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="sent" stackId="deliveries" fill="var(--color-sent)" />
+              <Bar dataKey="pending" stackId="deliveries" fill="var(--color-pending)" />
+              <Bar dataKey="failed" stackId="deliveries" fill="var(--color-failed)" />
+              <Bar dataKey="dead" stackId="deliveries" fill="var(--color-dead)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationDeliveryChart;
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { History } from 'lucide-react';
+
+interface NotificationEvent {
+  id: string;
+  event: string;
+  channel: string | null;
+  attempt: number | null;
+  provider_message_id: string | null;
+  payload: Json;
+  detail: string | null;
+  created_at: string;
+}
+
+interface NotificationTimelineDialogProps {
+  notification: {
+    id: string;
+    email: string;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EVENTS: Record<string, { label: string; variant: BadgeProps['variant'] }> = {
+  queued: { label: 'Queued', variant: 'secondary' },
+  claimed: { label: 'Claimed', variant: 'info' },
+  attempted: { label: 'Attempted', variant: 'outline' },
+  sent: { label: 'Sent', variant: 'success' },
+  failed: { label: 'Failed', variant: 'destructive' },
+  superseded: { label: 'Withdrawn', variant: 'outline' },
+  opened: { label: 'Opened', variant: 'success' },
+};
+
+const CHANNEL_LABELS: Record<string, string> = {
+  email: 'Email',
+  sms: 'SMS',
+  push: 'Push',
+  in_app: 'In app',
+};
+
+const hasPayload = (payload: Json) =>
+  payload !== null && typeof payload === 'object' && Object.keys(payload).length > 0;
+
+// Oldest first, so the timeline reads in the order things happened
+const NotificationTimelineDialog: React.FC<NotificationTimelineDialogProps> = ({ notification, onOpenChange }) => {
+  const [events, setEvents] = useState<NotificationEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!notification) return;
+
+    const fetchEvents = async () => {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase
+        .from('notification_events')
+        .select('id, event, channel, attempt, provider_message_id, payload, detail, created_at')
+        .eq('notification_id', notification.id)
+        .order('created_at');
+
+      if (error) {
+        setError(error.message || 'Failed to load the timeline.');
+        setEvents([]);
+      } else {
+        setEvents(data || []);
+      }
+      setLoading(false);
+    };
+
+    fetchEvents();
+  }, [notification]);
+
+  return (
+    <Dialog open={!!notification} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Delivery Timeline</DialogTitle>
+          <DialogDescription>
+            Everything that happened to the notification for {notification?.email}, with what each provider returned.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : events.length === 0 ? (
+          <div className="text-center py-8">
+            <History className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No events were recorded for this notification</p>
+          </div>
+        ) : (
+          <ScrollArea className="h-96 pr-4">
+            <ol className="relative border-l ml-2 space-y-4">
+              {events.map(event => {
+                const option = EVENTS[event.event];
+
+                return (
+                  <li key={event.id} className="ml-4 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant={option?.variant ?? 'outline'}>{option?.label ?? event.event}</Badge>
+                      {event.channel && (
+                        <span className="text-sm font-medium">{CHANNEL_LABELS[event.channel] ?? event.channel}</span>
+                      )}
+                      {event.attempt !== null && (
+                        <span className="text-xs text-muted-foreground">Attempt {event.attempt}</span>
+                      )}
+                      <span className="text-xs text-muted-foreground ml-auto">
+                        {format(new Date(event.created_at), 'd MMM yyyy HH:mm:ss')}
+                      </span>
+                    </div>
+                    {event.detail && (
+                      <p className={`text-sm break-words ${event.event === 'failed' ? 'text-destructive' : ''}`}>
+                        {event.detail}
+                      </p>
+                    )}
+                    {event.provider_message_id && (
+                      <p className="text-xs text-muted-foreground break-all">
+                        Provider message ID: {event.provider_message_id}
+                      </p>
+                    )}
+                    {hasPayload(event.payload) && (
+                      <pre className="text-xs bg-muted rounded p-2 whitespace-pre-wrap break-all">
+                        {JSON.stringify(event.payload, null, 2)}
+                      </pre>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NotificationTimelineDialog;
@@ -12,6 +12,8 @@ interface Profile {
   department?: string;
   level?: string;
   notification_email?: string;
+  locale?: string;
+  timezone?: string | null;
   created_at: string;
   updated_at: string;
 }
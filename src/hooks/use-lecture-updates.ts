@@ -0,0 +1,127 @@
+import { useEffect, useRef } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface LectureRow {
+  id: string;
+  course_id: string;
+  title: string;
+  scheduled_at: string;
+  is_cancelled: boolean | null;
+}
+
+interface EnrollmentRow {
+  id: string;
+  course_id: string;
+  student_id: string;
+}
+
+interface UseLectureUpdatesOptions {
+  /** Courses whose lectures and enrollments matter to this dashboard. */
+  courses: { id: string; course_code: string }[];
+  /** Postgres changes filter for enrollments, e.g. `student_id=eq.<id>`. */
+  enrollmentFilter?: string;
+  onChange: () => void;
+  enabled?: boolean;
+}
+
+const formatWhen = (iso: string) =>
+  new Date(iso).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+// Only additions, reschedules and cancellations are worth interrupting for
+const describeLectureChange = (
+  payload: RealtimePostgresChangesPayload<LectureRow>,
+  courseCode: string
+): { title: string; description: string } | null => {
+  if (payload.eventType === 'INSERT') {
+    return {
+      title: 'New lecture scheduled',
+      description: `${courseCode}: ${payload.new.title} on ${formatWhen(payload.new.scheduled_at)}`,
+    };
+  }
+
+  if (payload.eventType === 'UPDATE') {
+    const previous = payload.old as Partial<LectureRow>;
+    const lecture = payload.new;
+
+    if (lecture.is_cancelled && !previous.is_cancelled) {
+      return {
+        title: 'Lecture cancelled',
+        description: `${courseCode}: ${lecture.title} on ${formatWhen(lecture.scheduled_at)}`,
+      };
+    }
+    if (!lecture.is_cancelled && previous.is_cancelled) {
+      return {
+        title: 'Lecture reinstated',
+        description: `${courseCode}: ${lecture.title} on ${formatWhen(lecture.scheduled_at)}`,
+      };
+    }
+    if (previous.scheduled_at && previous.scheduled_at !== lecture.scheduled_at) {
+      return {
+        title: 'Lecture rescheduled',
+        description: `${courseCode}: ${lecture.title} moved from ${formatWhen(previous.scheduled_at)} to ${formatWhen(lecture.scheduled_at)}`,
+      };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Keeps a dashboard live: calls `onChange` whenever a lecture or enrollment in
+ * one of `courses` changes, and toasts lecture additions, reschedules and
+ * cancellations.
+ */
+export function useLectureUpdates({ courses, enrollmentFilter, onChange, enabled = true }: UseLectureUpdatesOptions) {
+  const { toast } = useToast();
+  const coursesRef = useRef(courses);
+  const onChangeRef = useRef(onChange);
+
+  // Read through refs so a refetch doesn't tear down the subscription
+  useEffect(() => {
+    coursesRef.current = courses;
+    onChangeRef.current = onChange;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const courseCode = (courseId: string) =>
+      coursesRef.current.find(course => course.id === courseId)?.course_code;
+
+    const channel = supabase
+      .channel(`lecture-updates-${enrollmentFilter ?? 'all'}`)
+      .on<LectureRow>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'lectures' },
+        (payload) => {
+          const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as Partial<LectureRow>;
+          const code = row.course_id ? courseCode(row.course_id) : undefined;
+          if (!code) return;
+
+          const change = describeLectureChange(payload, code);
+          if (change) {
+            toast(change);
+          }
+          onChangeRef.current();
+        }
+      )
+      .on<EnrollmentRow>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'enrollments', filter: enrollmentFilter },
+        (payload) => {
+          const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as Partial<EnrollmentRow>;
+          // A student's own enrollments can add courses the dashboard doesn't know about yet
+          if (enrollmentFilter || (row.course_id && courseCode(row.course_id))) {
+            onChangeRef.current();
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [enabled, enrollmentFilter, toast]);
+}
@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+const POLL_INTERVAL_MS = 2000;
+
+export interface NotificationBatchProgress {
+  total: number;
+  sent: number;
+  /** Failed at least once and waiting to be retried, or out of attempts. */
+  failed: number;
+  /** Still waiting for or being handled by the processor. */
+  inFlight: number;
+  done: boolean;
+}
+
+const EMPTY_PROGRESS: NotificationBatchProgress = { total: 0, sent: 0, failed: 0, inFlight: 0, done: false };
+
+/**
+ * Follows a batch of queued notifications until none are left waiting. The
+ * caller can't read other users' notifications, so this polls
+ * `notification_batch_progress` rather than subscribing to the table.
+ */
+export function useNotificationBatch(batchId: string | null): NotificationBatchProgress | null {
+  const [progress, setProgress] = useState<NotificationBatchProgress | null>(null);
+
+  useEffect(() => {
+    if (!batchId) {
+      setProgress(null);
+      return;
+    }
+
+    setProgress(EMPTY_PROGRESS);
+    let active = true;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      const { data, error } = await supabase.rpc('notification_batch_progress', { p_batch_id: batchId });
+      if (!active) return;
+
+      if (error) {
+        console.error('Error fetching notification batch progress:', error);
+        return;
+      }
+
+      const count = (...statuses: string[]) =>
+        (data || []).filter(row => statuses.includes(row.status)).reduce((sum, row) => sum + Number(row.total), 0);
+
+      const next = {
+        total: count('pending', 'processing', 'sent', 'failed', 'dead'),
+        sent: count('sent'),
+        failed: count('failed', 'dead'),
+        inFlight: count('pending', 'processing'),
+        done: false,
+      };
+      next.done = next.inFlight === 0;
+      setProgress(next);
+
+      if (!next.done) {
+        timer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [batchId]);
+
+  return progress;
+}
@@ -14,6 +14,107 @@ export type Database = {
   }
   public: {
     Tables: {
+      announcement_courses: {
+        Row: {
+          announcement_id: string
+          course_id: string
+        }
+        Insert: {
+          announcement_id: string
+          course_id: string
+        }
+        Update: {
+          announcement_id?: string
+          course_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "announcement_courses_announcement_id_fkey"
+            columns: ["announcement_id"]
+            isOneToOne: false
+            referencedRelation: "announcements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "announcement_courses_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      announcements: {
+        Row: {
+          author_id: string
+          body: string
+          created_at: string | null
+          id: string
+          is_pinned: boolean
+          publish_at: string
+          title: string
+        }
+        Insert: {
+          author_id: string
+          body: string
+          created_at?: string | null
+          id?: string
+          is_pinned?: boolean
+          publish_at?: string
+          title: string
+        }
+        Update: {
+          author_id?: string
+          body?: string
+          created_at?: string | null
+          id?: string
+          is_pinned?: boolean
+          publish_at?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "announcements_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_email_unsubscribes: {
+        Row: {
+          course_id: string
+          created_at: string | null
+          user_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string | null
+          user_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_email_unsubscribes_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_email_unsubscribes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       courses: {
         Row: {
           color: string | null
@@ -67,28 +168,37 @@ export type Database = {
       email_preferences: {
         Row: {
           created_at: string
-          daily_digest: boolean
+          digest_replaces_reminders: boolean
           id: string
-          lecture_reminders: boolean
-          notification_email: string
+          notification_email: string | null
+          notification_email_verified_at: string | null
+          pending_notification_email: string | null
+          reminder_offsets: number[] | null
+          sms_kinds: string[]
           updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
-          daily_digest?: boolean
+          digest_replaces_reminders?: boolean
           id?: string
-          lecture_reminders?: boolean
-          notification_email: string
+          notification_email?: string | null
+          notification_email_verified_at?: string | null
+          pending_notification_email?: string | null
+          reminder_offsets?: number[] | null
+          sms_kinds?: string[]
           updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
-          daily_digest?: boolean
+          digest_replaces_reminders?: boolean
           id?: string
-          lecture_reminders?: boolean
-          notification_email?: string
+          notification_email?: string | null
+          notification_email_verified_at?: string | null
+          pending_notification_email?: string | null
+          reminder_offsets?: number[] | null
+          sms_kinds?: string[]
           updated_at?: string
           user_id?: string
         }
@@ -102,12 +212,48 @@ export type Database = {
           },
         ]
       }
+      email_verifications: {
+        Row: {
+          attempts: number
+          code_hash: string
+          created_at: string | null
+          email: string
+          expires_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          created_at?: string | null
+          email: string
+          expires_at: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          created_at?: string | null
+          email?: string
+          expires_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_verifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       enrollments: {
         Row: {
           course_id: string
           enrolled_at: string | null
           id: string
           is_active: boolean | null
+          section: string | null
           student_id: string
         }
         Insert: {
@@ -115,6 +261,7 @@ export type Database = {
           enrolled_at?: string | null
           id?: string
           is_active?: boolean | null
+          section?: string | null
           student_id: string
         }
         Update: {
@@ -122,6 +269,7 @@ export type Database = {
           enrolled_at?: string | null
           id?: string
           is_active?: boolean | null
+          section?: string | null
           student_id?: string
         }
         Relationships: [
@@ -141,8 +289,34 @@ export type Database = {
           },
         ]
       }
+      institution_settings: {
+        Row: {
+          default_reminder_offsets: number[]
+          digest_hour: number
+          id: boolean
+          timezone: string
+          updated_at: string | null
+        }
+        Insert: {
+          default_reminder_offsets?: number[]
+          digest_hour?: number
+          id?: boolean
+          timezone?: string
+          updated_at?: string | null
+        }
+        Update: {
+          default_reminder_offsets?: number[]
+          digest_hour?: number
+          id?: boolean
+          timezone?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       lectures: {
         Row: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
           course_id: string
           created_at: string | null
           description: string | null
@@ -156,6 +330,8 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
           course_id: string
           created_at?: string | null
           description?: string | null
@@ -169,6 +345,8 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
           course_id?: string
           created_at?: string | null
           description?: string | null
@@ -191,47 +369,256 @@ export type Database = {
           },
         ]
       }
+      notification_events: {
+        Row: {
+          attempt: number | null
+          channel: string | null
+          created_at: string
+          detail: string | null
+          event: string
+          id: string
+          notification_id: string
+          payload: Json
+          provider_message_id: string | null
+        }
+        Insert: {
+          attempt?: number | null
+          channel?: string | null
+          created_at?: string
+          detail?: string | null
+          event: string
+          id?: string
+          notification_id: string
+          payload?: Json
+          provider_message_id?: string | null
+        }
+        Update: {
+          attempt?: number | null
+          channel?: string | null
+          created_at?: string
+          detail?: string | null
+          event?: string
+          id?: string
+          notification_id?: string
+          payload?: Json
+          provider_message_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_events_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preference_defaults: {
+        Row: {
+          channel: string
+          enabled: boolean
+          kind: string
+        }
+        Insert: {
+          channel: string
+          enabled: boolean
+          kind: string
+        }
+        Update: {
+          channel?: string
+          enabled?: boolean
+          kind?: string
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          channel: string
+          enabled: boolean
+          kind: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          channel: string
+          enabled: boolean
+          kind: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          enabled?: boolean
+          kind?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_kind_channel_fkey"
+            columns: ["kind", "channel"]
+            isOneToOne: false
+            referencedRelation: "notification_preference_defaults"
+            referencedColumns: ["kind", "channel"]
+          },
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_templates: {
+        Row: {
+          body: string
+          channel: string
+          created_at: string | null
+          id: string
+          kind: string
+          locale: string
+          subject: string
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          body: string
+          channel?: string
+          created_at?: string | null
+          id?: string
+          kind: string
+          locale?: string
+          subject: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          body?: string
+          channel?: string
+          created_at?: string | null
+          id?: string
+          kind?: string
+          locale?: string
+          subject?: string
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_templates_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
+          announcement_id: string | null
+          attempts: number
+          batch_id: string | null
+          channels: string[]
+          claimed_by: string | null
           created_at: string | null
           email: string
+          email_sent_at: string | null
           error_message: string | null
           id: string
-          lecture_id: string
-          message: string
+          idempotency_key: string | null
+          kind: string
+          last_attempt_at: string | null
+          lecture_id: string | null
+          locked_until: string | null
+          max_attempts: number
+          message: string | null
+          next_attempt_at: string | null
+          offset_minutes: number | null
+          payload: Json
+          provider_message_id: string | null
+          push_sent_at: string | null
+          read_at: string | null
           recipient_id: string
           scheduled_for: string
           sent_at: string | null
+          sms_sent_at: string | null
           status: Database["public"]["Enums"]["notification_status"] | null
-          subject: string
+          status_reason: string | null
+          subject: string | null
         }
         Insert: {
+          announcement_id?: string | null
+          attempts?: number
+          batch_id?: string | null
+          channels?: string[]
+          claimed_by?: string | null
           created_at?: string | null
           email: string
+          email_sent_at?: string | null
           error_message?: string | null
           id?: string
-          lecture_id: string
-          message: string
+          idempotency_key?: string | null
+          kind?: string
+          last_attempt_at?: string | null
+          lecture_id?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          message?: string | null
+          next_attempt_at?: string | null
+          offset_minutes?: number | null
+          payload?: Json
+          provider_message_id?: string | null
+          push_sent_at?: string | null
+          read_at?: string | null
           recipient_id: string
           scheduled_for: string
           sent_at?: string | null
+          sms_sent_at?: string | null
           status?: Database["public"]["Enums"]["notification_status"] | null
-          subject: string
+          status_reason?: string | null
+          subject?: string | null
         }
         Update: {
+          announcement_id?: string | null
+          attempts?: number
+          batch_id?: string | null
+          channels?: string[]
+          claimed_by?: string | null
           created_at?: string | null
           email?: string
+          email_sent_at?: string | null
           error_message?: string | null
           id?: string
-          lecture_id?: string
-          message?: string
+          idempotency_key?: string | null
+          kind?: string
+          last_attempt_at?: string | null
+          lecture_id?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          message?: string | null
+          next_attempt_at?: string | null
+          offset_minutes?: number | null
+          payload?: Json
+          provider_message_id?: string | null
+          push_sent_at?: string | null
+          read_at?: string | null
           recipient_id?: string
           scheduled_for?: string
           sent_at?: string | null
+          sms_sent_at?: string | null
           status?: Database["public"]["Enums"]["notification_status"] | null
-          subject?: string
+          status_reason?: string | null
+          subject?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "notifications_announcement_id_fkey"
+            columns: ["announcement_id"]
+            isOneToOne: false
+            referencedRelation: "announcements"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "notifications_lecture_id_fkey"
             columns: ["lecture_id"]
@@ -248,17 +635,58 @@ export type Database = {
           },
         ]
       }
+      phone_verifications: {
+        Row: {
+          attempts: number
+          code_hash: string
+          created_at: string | null
+          expires_at: string
+          phone_number: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          created_at?: string | null
+          expires_at: string
+          phone_number: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          created_at?: string | null
+          expires_at?: string
+          phone_number?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phone_verifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
           created_at: string | null
           department: string | null
           email: string
+          email_suppressed_at: string | null
+          email_suppression_reason: string | null
           full_name: string
           id: string
           level: string | null
+          locale: string
           notification_email: string | null
+          phone_number: string | null
+          phone_verified_at: string | null
           role: Database["public"]["Enums"]["user_role"]
+          timezone: string | null
           updated_at: string | null
         }
         Insert: {
@@ -266,11 +694,17 @@ export type Database = {
           created_at?: string | null
           department?: string | null
           email: string
+          email_suppressed_at?: string | null
+          email_suppression_reason?: string | null
           full_name: string
           id: string
           level?: string | null
+          locale?: string
           notification_email?: string | null
+          phone_number?: string | null
+          phone_verified_at?: string | null
           role?: Database["public"]["Enums"]["user_role"]
+          timezone?: string | null
           updated_at?: string | null
         }
         Update: {
@@ -278,24 +712,285 @@ export type Database = {
           created_at?: string | null
           department?: string | null
           email?: string
+          email_suppressed_at?: string | null
+          email_suppression_reason?: string | null
           full_name?: string
           id?: string
           level?: string | null
+          locale?: string
           notification_email?: string | null
+          phone_number?: string | null
+          phone_verified_at?: string | null
           role?: Database["public"]["Enums"]["user_role"]
+          timezone?: string | null
           updated_at?: string | null
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string | null
+          endpoint: string
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string | null
+          endpoint: string
+          id?: string
+          last_used_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string | null
+          endpoint?: string
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduler_runs: {
+        Row: {
+          error: string | null
+          failed: number
+          finished_at: string | null
+          id: string
+          job: string
+          processed: number
+          started_at: string
+          status: string
+          succeeded: number
+          trigger: string
+        }
+        Insert: {
+          error?: string | null
+          failed?: number
+          finished_at?: string | null
+          id?: string
+          job: string
+          processed?: number
+          started_at?: string
+          status?: string
+          succeeded?: number
+          trigger?: string
+        }
+        Update: {
+          error?: string | null
+          failed?: number
+          finished_at?: string | null
+          id?: string
+          job?: string
+          processed?: number
+          started_at?: string
+          status?: string
+          succeeded?: number
+          trigger?: string
+        }
+        Relationships: []
+      }
+      suppressed_addresses: {
+        Row: {
+          detail: string | null
+          email: string
+          event_count: number
+          first_seen_at: string
+          last_seen_at: string
+          provider_message_id: string | null
+          reason: string
+        }
+        Insert: {
+          detail?: string | null
+          email: string
+          event_count?: number
+          first_seen_at?: string
+          last_seen_at?: string
+          provider_message_id?: string | null
+          reason: string
+        }
+        Update: {
+          detail?: string | null
+          email?: string
+          event_count?: number
+          first_seen_at?: string
+          last_seen_at?: string
+          provider_message_id?: string | null
+          reason?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      apply_email_unsubscribe: {
+        Args: { p_course_id: string; p_kind: string; p_user_id: string }
+        Returns: undefined
+      }
+      claim_due_notifications: {
+        Args: { p_lease_seconds?: number; p_limit?: number; p_worker: string }
+        Returns: Database["public"]["Tables"]["notifications"]["Row"][]
+      }
+      course_roster: {
+        Args: { p_course_id: string }
+        Returns: {
+          email: string
+          enrollment_id: string
+          full_name: string
+          section: string
+          student_id: string
+        }[]
+      }
+      is_valid_timezone: {
+        Args: { p_name: string }
+        Returns: boolean
+      }
+      mark_all_notifications_read: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      mark_notifications_read: {
+        Args: { p_ids: string[] }
+        Returns: number
+      }
+      notification_batch_progress: {
+        Args: { p_batch_id: string }
+        Returns: { status: string; total: number }[]
+      }
+      notification_channels_for: {
+        Args: { p_course_id?: string; p_kind: string; p_user_ids: string[] }
+        Returns: {
+          channels: string[]
+          user_id: string
+        }[]
+      }
+      notification_delivery_stats: {
+        Args: {
+          p_course_id?: string
+          p_from: string
+          p_timezone?: string
+          p_to: string
+        }
+        Returns: {
+          day: string
+          dead: number
+          failed: number
+          pending: number
+          sent: number
+        }[]
+      }
+      preview_lecture_notifications: {
+        Args: {
+          p_course_id: string
+          p_lecture_id?: string
+          p_scheduled_at: string
+        }
+        Returns: {
+          channels: string[]
+          email: string
+          email_source: string
+          email_suppressed: boolean
+          full_name: string
+          kind: string
+          offset_minutes: number
+          recipient_id: string
+          send_at: string
+          skipped_reason: string
+        }[]
+      }
+      publish_announcement: {
+        Args: {
+          p_body: string
+          p_course_ids: string[]
+          p_is_pinned?: boolean
+          p_publish_at?: string
+          p_title: string
+        }
+        Returns: string
+      }
+      queue_daily_digests: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      record_email_open: {
+        Args: { p_payload?: Json; p_provider_message_id: string }
+        Returns: number
+      }
+      record_email_suppression: {
+        Args: {
+          p_detail?: string
+          p_email: string
+          p_provider_message_id?: string
+          p_reason: string
+        }
+        Returns: number
+      }
+      refresh_email_suppression: {
+        Args: { p_user_id: string }
+        Returns: undefined
+      }
+      register_push_subscription: {
+        Args: {
+          p_auth: string
+          p_endpoint: string
+          p_p256dh: string
+          p_user_agent?: string
+        }
+        Returns: string
+      }
+      reminder_offsets_for: {
+        Args: { p_user_id: string }
+        Returns: number[]
+      }
+      requeue_notifications: {
+        Args: { p_ids: string[] }
+        Returns: number
+      }
+      requeue_student_reminders: {
+        Args: { p_reason: string; p_student_id: string }
+        Returns: undefined
+      }
+      set_enrollment_section: {
+        Args: { p_enrollment_id: string; p_section: string }
+        Returns: undefined
+      }
+      set_notification_preferences: {
+        Args: { p_preferences: Json }
+        Returns: undefined
+      }
+      timezone_for: {
+        Args: { p_user_id: string }
+        Returns: string
+      }
     }
     Enums: {
-      notification_status: "pending" | "sent" | "failed"
+      notification_status:
+        | "pending"
+        | "sent"
+        | "failed"
+        | "dead"
+        | "processing"
+        | "superseded"
+        | "cancelled"
       user_role: "student" | "lecturer" | "admin"
     }
     CompositeTypes: {
@@ -424,7 +1119,15 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      notification_status: ["pending", "sent", "failed"],
+      notification_status: [
+        "pending",
+        "sent",
+        "failed",
+        "dead",
+        "processing",
+        "superseded",
+        "cancelled",
+      ],
       user_role: ["student", "lecturer", "admin"],
     },
   },
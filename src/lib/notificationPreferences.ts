@@ -0,0 +1,55 @@
+// Mirrors notification_preference_defaults in the database
+export type PreferenceKind = 'scheduled' | 'reminder' | 'rescheduled' | 'cancelled' | 'announcement' | 'digest';
+export type PreferenceChannel = 'email' | 'in_app' | 'push';
+
+export const PREFERENCE_KINDS: { value: PreferenceKind; label: string; description: string }[] = [
+  { value: 'scheduled', label: 'New lecture', description: 'A lecture is added to one of your courses' },
+  { value: 'reminder', label: 'Reminder', description: 'Before each lecture, and reminders sent by lecturers' },
+  { value: 'rescheduled', label: 'Rescheduled', description: 'A lecture moves to a new time' },
+  { value: 'cancelled', label: 'Cancelled', description: 'A lecture is cancelled' },
+  { value: 'announcement', label: 'Announcement', description: 'Course announcements from your lecturers' },
+  { value: 'digest', label: 'Daily digest', description: "Each morning, the day's lectures and any changes" },
+];
+
+export const PREFERENCE_CHANNELS: { value: PreferenceChannel; label: string }[] = [
+  { value: 'email', label: 'Email' },
+  { value: 'in_app', label: 'In-app' },
+  { value: 'push', label: 'Push' },
+];
+
+export type PreferenceMatrix = Record<PreferenceKind, Record<PreferenceChannel, boolean>>;
+
+// A type alias rather than an interface so cells can be passed as Json
+export type PreferenceCell = {
+  kind: string;
+  channel: string;
+  enabled: boolean;
+};
+
+/** Overlays a user's choices on the defaults; cells missing from both are off. */
+export function buildPreferenceMatrix(defaults: PreferenceCell[], overrides: PreferenceCell[] = []): PreferenceMatrix {
+  const lookup = (cells: PreferenceCell[], kind: string, channel: string) =>
+    cells.find(cell => cell.kind === kind && cell.channel === channel)?.enabled;
+
+  return Object.fromEntries(
+    PREFERENCE_KINDS.map(({ value: kind }) => [
+      kind,
+      Object.fromEntries(
+        PREFERENCE_CHANNELS.map(({ value: channel }) => [
+          channel,
+          lookup(overrides, kind, channel) ?? lookup(defaults, kind, channel) ?? false,
+        ])
+      ),
+    ])
+  ) as PreferenceMatrix;
+}
+
+export function matrixToCells(matrix: PreferenceMatrix): PreferenceCell[] {
+  return PREFERENCE_KINDS.flatMap(({ value: kind }) =>
+    PREFERENCE_CHANNELS.map(({ value: channel }) => ({ kind, channel, enabled: matrix[kind][channel] }))
+  );
+}
+
+/** Whether a kind goes anywhere at all. */
+export const isKindEnabled = (matrix: PreferenceMatrix, kind: PreferenceKind) =>
+  Object.values(matrix[kind]).some(Boolean);
@@ -0,0 +1,55 @@
+// Mirrors supabase/functions/_shared/templates.ts, which does the rendering
+export type NotificationKind = 'scheduled' | 'rescheduled' | 'reminder' | 'cancelled' | 'manual' | 'digest' | 'announcement';
+
+export const NOTIFICATION_KINDS: { value: NotificationKind; label: string }[] = [
+  { value: 'scheduled', label: 'Lecture scheduled' },
+  { value: 'rescheduled', label: 'Lecture rescheduled' },
+  { value: 'reminder', label: 'Lecture reminder' },
+  { value: 'cancelled', label: 'Lecture cancelled' },
+  { value: 'manual', label: 'Manual reminder' },
+  { value: 'digest', label: 'Daily digest' },
+  { value: 'announcement', label: 'Course announcement' },
+];
+
+export type TemplateChannel = 'email' | 'sms';
+
+export const TEMPLATE_CHANNELS: { value: TemplateChannel; label: string }[] = [
+  { value: 'email', label: 'Email' },
+  { value: 'sms', label: 'SMS' },
+];
+
+// Digests are too long for a text message
+export const SMS_KINDS = NOTIFICATION_KINDS.filter(kind => kind.value !== 'digest');
+
+// Mirrors SMS_MAX_LENGTH in supabase/functions/_shared/sms/types.ts
+export const SMS_MAX_LENGTH = 306;
+
+const LECTURE_VARIABLES = [
+  'recipient_name',
+  'lecture_title',
+  'course_title',
+  'course_code',
+  'lecture_time',
+  'venue',
+  'meeting_url',
+];
+
+export const KIND_VARIABLES: Record<NotificationKind, string[]> = {
+  scheduled: LECTURE_VARIABLES,
+  rescheduled: [...LECTURE_VARIABLES, 'previous_time'],
+  reminder: [...LECTURE_VARIABLES, 'lead_time'],
+  cancelled: [...LECTURE_VARIABLES, 'cancellation_reason'],
+  manual: [...LECTURE_VARIABLES, 'note'],
+  digest: ['recipient_name', 'digest_date', 'lecture_list', 'no_lectures', 'changes_list'],
+  announcement: ['recipient_name', 'course_title', 'course_code', 'announcement_title', 'announcement_body', 'author_name'],
+};
+
+export const DEFAULT_LOCALE = 'en';
+
+export function localeLabel(code: string): string {
+  try {
+    return new Intl.DisplayNames([code], { type: 'language' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
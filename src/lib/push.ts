@@ -0,0 +1,108 @@
+import { supabase } from '@/integrations/supabase/client';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export const isPushSupported = () =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// VAPID keys are base64url; the Push API wants raw bytes
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+};
+
+const getRegistration = () => navigator.serviceWorker.register(SERVICE_WORKER_URL);
+
+/** This browser's current subscription, if push is enabled on it. */
+export async function getCurrentSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await getRegistration();
+  return registration.pushManager.getSubscription();
+}
+
+/**
+ * Asks for permission, subscribes this browser and saves the subscription
+ * for the signed-in user.
+ */
+export async function subscribeToPush(): Promise<PushSubscription> {
+  if (!isPushSupported()) {
+    throw new Error('This browser does not support push notifications.');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site. Allow them in your browser settings.');
+  }
+
+  const { data, error } = await supabase.functions.invoke('vapid-public-key');
+  if (error) throw error;
+  if (!data?.publicKey) {
+    throw new Error('Push notifications are not configured on the server.');
+  }
+
+  const registration = await getRegistration();
+  const subscribe = () => registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(data.publicKey),
+  });
+
+  let subscription = await subscribe();
+  // Another account saved this browser's endpoint; a fresh subscription gets a new one
+  if (!(await saveSubscription(subscription))) {
+    await subscription.unsubscribe();
+    subscription = await subscribe();
+    if (!(await saveSubscription(subscription))) {
+      throw new Error('This browser is registered to another account.');
+    }
+  }
+
+  return subscription;
+}
+
+/** Saves the subscription for the signed-in user; false if another user holds its endpoint. */
+async function saveSubscription(subscription: PushSubscription): Promise<boolean> {
+  const keys = subscription.toJSON().keys ?? {};
+  const { data, error } = await supabase.rpc('register_push_subscription', {
+    p_endpoint: subscription.endpoint,
+    p_p256dh: keys.p256dh ?? '',
+    p_auth: keys.auth ?? '',
+    p_user_agent: navigator.userAgent,
+  });
+  if (error) throw error;
+
+  return !!data;
+}
+
+/** Removes a saved subscription, unsubscribing the browser too when it is this one. */
+export async function removePushSubscription(id: string, endpoint: string): Promise<void> {
+  const current = await getCurrentSubscription();
+  if (current?.endpoint === endpoint) {
+    await current.unsubscribe();
+  }
+
+  const { error } = await supabase.from('push_subscriptions').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/** A short device name from a user agent string, e.g. "Chrome on Windows". */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os =
+    /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
@@ -0,0 +1,22 @@
+// Reminder lead times are stored as minutes before a lecture starts
+export const REMINDER_OFFSET_OPTIONS = [1, 5, 15, 30, 60, 120, 1440, 2880, 10080];
+
+export const DEFAULT_REMINDER_OFFSETS = [1440, 1];
+
+// Mirrors format_reminder_offset() in the database
+export function formatReminderOffset(minutes: number): string {
+  if (minutes % 1440 === 0) {
+    const days = minutes / 1440;
+    return `${days} ${days === 1 ? 'day' : 'days'}`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+}
+
+// Longest lead time first, without duplicates
+export function sortReminderOffsets(offsets: number[]): number[] {
+  return Array.from(new Set(offsets)).sort((a, b) => b - a);
+}
@@ -0,0 +1,23 @@
+// Intl.supportedValuesOf is newer than the ES2020 lib this project targets
+const supportedValuesOf = (Intl as unknown as {
+  supportedValuesOf?: (key: 'timeZone') => string[];
+}).supportedValuesOf;
+
+const zones = supportedValuesOf?.('timeZone') ?? [];
+
+export const TIMEZONES: string[] = zones.includes('UTC') ? zones : ['UTC', ...zones];
+
+export const browserTimezone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// e.g. "Africa/Lagos (GMT+1)"
+export function timezoneLabel(timeZone: string): string {
+  try {
+    const offset = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'shortOffset' })
+      .formatToParts(new Date())
+      .find(part => part.type === 'timeZoneName')?.value;
+    return offset ? `${timeZone.replace(/_/g, ' ')} (${offset})` : timeZone;
+  } catch {
+    return timeZone;
+  }
+}
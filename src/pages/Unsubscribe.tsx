@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/enhanced-button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { PREFERENCE_KINDS } from '@/lib/notificationPreferences';
+import { GraduationCap, MailX, CheckCircle } from 'lucide-react';
+
+interface LinkDetails {
+  kind: string;
+  course: { title: string; course_code: string } | null;
+  kindUnsubscribed: boolean;
+  courseUnsubscribed: boolean;
+}
+
+type Scope = 'kind' | 'course';
+
+// The function's own message is more useful than the generic one
+const errorMessage = async (error: Error) => {
+  const details = await (error as { context?: Response }).context?.json?.().catch(() => null);
+  return details?.error || error.message;
+};
+
+const Unsubscribe = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const [details, setDetails] = useState<LinkDetails | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<Scope | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    const fetchDetails = async () => {
+      if (!token) {
+        setError('This unsubscribe link is incomplete.');
+        return;
+      }
+
+      const { data, error } = await supabase.functions.invoke(
+        `unsubscribe?token=${encodeURIComponent(token)}`,
+        { method: 'GET' }
+      );
+
+      if (error) {
+        setError(await errorMessage(error));
+      } else {
+        setDetails(data as LinkDetails);
+      }
+    };
+
+    fetchDetails();
+  }, [token]);
+
+  const unsubscribe = async (scope: Scope) => {
+    setWorking(true);
+    const { error } = await supabase.functions.invoke('unsubscribe', { body: { token, scope } });
+    if (error) {
+      setError(await errorMessage(error));
+    } else {
+      setDone(scope);
+    }
+    setWorking(false);
+  };
+
+  const kindLabel = PREFERENCE_KINDS.find(kind => kind.value === details?.kind)?.label.toLowerCase() ?? 'these';
+
+  return (
+    <div className="min-h-screen bg-gradient-hero flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center mb-4">
+            <div className="bg-white/10 backdrop-blur-sm rounded-full p-3">
+              <GraduationCap className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold text-white mb-2">LectureHub</h1>
+        </div>
+
+        <Card className="bg-white/95 backdrop-blur-sm border-0 shadow-elegant">
+          <CardHeader className="text-center">
+            <CardTitle className="flex items-center justify-center gap-2">
+              <MailX className="h-5 w-5" />
+              Unsubscribe
+            </CardTitle>
+            <CardDescription>Choose which emails you no longer want</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {error ? (
+              <p className="text-sm text-destructive text-center">{error}</p>
+            ) : done ? (
+              <div className="text-center space-y-2">
+                <CheckCircle className="h-10 w-10 text-success mx-auto" />
+                <p className="text-sm">
+                  {done === 'course'
+                    ? `You won't get any more emails about ${details?.course?.course_code}.`
+                    : `You won't get any more ${kindLabel} emails.`}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  You can turn them back on from your notification preferences.
+                </p>
+              </div>
+            ) : !details ? (
+              <div className="flex items-center justify-center py-6">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : (
+              <>
+                <Button
+                  className="w-full"
+                  onClick={() => unsubscribe('kind')}
+                  disabled={working || details.kindUnsubscribed}
+                >
+                  {details.kindUnsubscribed
+                    ? `Already unsubscribed from ${kindLabel} emails`
+                    : `Stop ${kindLabel} emails`}
+                </Button>
+                {details.course && (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => unsubscribe('course')}
+                    disabled={working || details.courseUnsubscribed}
+                  >
+                    {details.courseUnsubscribed
+                      ? `Already unsubscribed from ${details.course.course_code}`
+                      : `Stop all emails about ${details.course.course_code}`}
+                  </Button>
+                )}
+              </>
+            )}
+            <p className="text-center text-sm">
+              <Link to="/dashboard?tab=preferences" className="text-primary underline">
+                Manage all notification preferences
+              </Link>
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Unsubscribe;
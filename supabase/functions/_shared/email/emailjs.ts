@@ -0,0 +1,53 @@
+import { EmailMessage, EmailTransport, EmailTransportError, SendResult, requireEnv } from "./types.ts";
+
+const EMAILJS_API_URL = "https://api.emailjs.com/api/v1.0/email/send";
+
+/**
+ * Sends through the EmailJS REST API. Subject and body are passed to the
+ * EmailJS template as `subject` and `message` alongside any template params.
+ */
+export function createEmailJSTransport(): EmailTransport {
+  const serviceId = requireEnv("EMAILJS_SERVICE_ID");
+  const templateId = requireEnv("EMAILJS_TEMPLATE_ID");
+  const publicKey = requireEnv("EMAILJS_PUBLIC_KEY");
+  const privateKey = Deno.env.get("EMAILJS_PRIVATE_KEY");
+
+  return {
+    name: "emailjs",
+
+    async send(message: EmailMessage): Promise<SendResult> {
+      const response = await fetch(EMAILJS_API_URL, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          service_id: serviceId,
+          template_id: templateId,
+          user_id: publicKey,
+          accessToken: privateKey,
+          template_params: {
+            ...message.templateParams,
+            to_email: message.to,
+            subject: message.subject,
+            message: message.text,
+            message_html: message.html ?? "",
+          },
+        }),
+      });
+
+      const responseText = await response.text();
+
+      if (!response.ok) {
+        // 4xx other than rate limiting means the request itself is wrong
+        const retryable = response.status === 429 || response.status >= 500;
+        throw new EmailTransportError("emailjs", `EmailJS responded ${response.status}: ${responseText}`, {
+          retryable,
+          response: responseText,
+        });
+      }
+
+      return { messageId: null, response: responseText };
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import { createEmailJSTransport } from "./emailjs.ts";
+import { createMailboxTransport } from "./mailbox.ts";
+import { createSmtpTransport } from "./smtp.ts";
+import type { EmailTransport } from "./types.ts";
+
+export type { EmailMessage, EmailTransport, SendResult } from "./types.ts";
+export { EmailTransportError } from "./types.ts";
+
+/**
+ * Returns the transport selected by EMAIL_TRANSPORT ("emailjs", "smtp" or
+ * "mailbox"). Defaults to EmailJS, which is what production uses.
+ */
+export function getEmailTransport(): EmailTransport {
+  const driver = (Deno.env.get("EMAIL_TRANSPORT") ?? "emailjs").toLowerCase();
+
+  switch (driver) {
+    case "emailjs":
+      return createEmailJSTransport();
+    case "smtp":
+      return createSmtpTransport();
+    case "mailbox":
+      return createMailboxTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${driver}"`);
+  }
+}
@@ -0,0 +1,25 @@
+import { EmailMessage, EmailTransport, SendResult } from "./types.ts";
+
+/**
+ * Local development driver: writes each message as a JSON file instead of
+ * sending it, so the pipeline can run without network access. The edge
+ * runtime only allows writes under /tmp.
+ */
+export function createMailboxTransport(): EmailTransport {
+  const directory = Deno.env.get("EMAIL_MAILBOX_DIR") ?? "/tmp/mailbox";
+
+  return {
+    name: "mailbox",
+
+    async send(message: EmailMessage): Promise<SendResult> {
+      const messageId = crypto.randomUUID();
+      const path = `${directory}/${new Date().toISOString().replace(/[:.]/g, "-")}-${messageId}.json`;
+
+      await Deno.mkdir(directory, { recursive: true });
+      await Deno.writeTextFile(path, JSON.stringify({ messageId, ...message }, null, 2));
+
+      console.log(`📬 Wrote email for ${message.to} to ${path}`);
+      return { messageId, response: path };
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import nodemailer from "npm:nodemailer@6.9.16";
+import { EmailMessage, EmailTransport, EmailTransportError, SendResult, requireEnv } from "./types.ts";
+
+/**
+ * Sends through any SMTP relay. Supabase's hosted edge runtime blocks
+ * outbound ports 25 and 587, so use an implicit-TLS port (465) there.
+ */
+export function createSmtpTransport(): EmailTransport {
+  const port = Number(Deno.env.get("SMTP_PORT") ?? "465");
+  const user = Deno.env.get("SMTP_USER");
+
+  const transporter = nodemailer.createTransport({
+    host: requireEnv("SMTP_HOST"),
+    port,
+    secure: (Deno.env.get("SMTP_SECURE") ?? String(port === 465)) === "true",
+    auth: user ? { user, pass: requireEnv("SMTP_PASSWORD") } : undefined,
+  });
+  const from = requireEnv("SMTP_FROM");
+
+  return {
+    name: "smtp",
+
+    async send(message: EmailMessage): Promise<SendResult> {
+      try {
+        const info = await transporter.sendMail({
+          from,
+          to: message.to,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+          headers: message.headers,
+        });
+
+        return { messageId: info.messageId ?? null, response: info.response ?? "" };
+      } catch (error) {
+        const { message: errorMessage, responseCode } = error as { message: string; responseCode?: number };
+        // 5xx SMTP replies are permanent; connection errors and 4xx are transient
+        const retryable = responseCode === undefined || responseCode < 500;
+        throw new EmailTransportError("smtp", errorMessage, { retryable });
+      }
+    },
+  };
+}
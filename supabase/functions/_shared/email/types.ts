@@ -0,0 +1,52 @@
+/**
+ * A single outgoing email. `text` is always sent; `html` is used by
+ * transports that support it. `templateParams` carries extra values for
+ * providers that render their own templates (EmailJS).
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  headers?: Record<string, string>;
+  templateParams?: Record<string, string>;
+}
+
+export interface SendResult {
+  /** Provider message ID, when the provider returns one. */
+  messageId: string | null;
+  /** Raw provider response, kept for logging. */
+  response: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<SendResult>;
+}
+
+/**
+ * Thrown by transports when a message could not be delivered. `retryable`
+ * is false when resending the same message can never succeed (bad address,
+ * rejected credentials).
+ */
+export class EmailTransportError extends Error {
+  readonly transport: string;
+  readonly retryable: boolean;
+  readonly response: string;
+
+  constructor(transport: string, message: string, options: { retryable: boolean; response?: string }) {
+    super(message);
+    this.name = "EmailTransportError";
+    this.transport = transport;
+    this.retryable = options.retryable;
+    this.response = options.response ?? message;
+  }
+}
+
+export function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`Missing required environment variable ${name}`);
+  }
+  return value;
+}
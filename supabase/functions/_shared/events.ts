@@ -0,0 +1,38 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.56.0";
+
+export interface DeliveryAttempt {
+  channel: "email" | "sms" | "push";
+  attempt: number;
+  providerMessageId?: string | null;
+  /** What the provider returned, or the error it raised. */
+  payload?: Record<string, unknown>;
+  /** Set when the channel failed. */
+  detail?: string | null;
+}
+
+/**
+ * Appends an `attempted` event to the notification's timeline. Status changes
+ * are logged by a trigger; this records what each provider said along the
+ * way. Logging is best effort and never fails the delivery.
+ */
+export async function recordAttempt(
+  supabase: SupabaseClient,
+  notificationId: string,
+  attempt: DeliveryAttempt,
+): Promise<void> {
+  const { error } = await supabase
+    .from("notification_events")
+    .insert({
+      notification_id: notificationId,
+      event: "attempted",
+      channel: attempt.channel,
+      attempt: attempt.attempt,
+      provider_message_id: attempt.providerMessageId ?? null,
+      payload: attempt.payload ?? {},
+      detail: attempt.detail ?? null,
+    });
+
+  if (error) {
+    console.error(`Error recording ${attempt.channel} attempt for notification ${notificationId}:`, error);
+  }
+}
@@ -0,0 +1,70 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.56.0";
+import { createLocalPushTransport } from "./local.ts";
+import { PushMessage, PushSubscriptionRecord, PushTransport, PushTransportError } from "./types.ts";
+import { createWebPushTransport } from "./webpush.ts";
+
+export type { PushMessage, PushSubscriptionRecord, PushTransport } from "./types.ts";
+export { PushTransportError } from "./types.ts";
+
+/**
+ * Returns the transport selected by PUSH_TRANSPORT ("webpush", "local" or
+ * "none"). Returns null when push is switched off, which is the default until
+ * VAPID keys are configured.
+ */
+export function getPushTransport(): PushTransport | null {
+  const driver = (Deno.env.get("PUSH_TRANSPORT") ?? "none").toLowerCase();
+
+  switch (driver) {
+    case "webpush":
+      return createWebPushTransport();
+    case "local":
+      return createLocalPushTransport();
+    case "none":
+      return null;
+    default:
+      throw new Error(`Unknown PUSH_TRANSPORT "${driver}"`);
+  }
+}
+
+/**
+ * Pushes a message to every device the user has registered. Push is best
+ * effort: failures are logged, never thrown, and subscriptions the browser
+ * has dropped are deleted. Returns how many devices accepted the message.
+ */
+export async function pushToUser(
+  supabase: SupabaseClient,
+  transport: PushTransport,
+  userId: string,
+  message: PushMessage,
+): Promise<number> {
+  const { data: subscriptions, error } = await supabase
+    .from("push_subscriptions")
+    .select("id, endpoint, p256dh, auth")
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error(`Error fetching push subscriptions for ${userId}:`, error);
+    return 0;
+  }
+
+  let delivered = 0;
+  for (const subscription of (subscriptions ?? []) as PushSubscriptionRecord[]) {
+    try {
+      await transport.send(subscription, message);
+      delivered++;
+      await supabase
+        .from("push_subscriptions")
+        .update({ last_used_at: new Date().toISOString() })
+        .eq("id", subscription.id);
+    } catch (error) {
+      if (error instanceof PushTransportError && error.expired) {
+        console.log(`Removing expired push subscription ${subscription.id}`);
+        await supabase.from("push_subscriptions").delete().eq("id", subscription.id);
+      } else {
+        console.error(`Push to ${subscription.endpoint} failed:`, error);
+      }
+    }
+  }
+
+  return delivered;
+}
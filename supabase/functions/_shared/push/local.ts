@@ -0,0 +1,27 @@
+import { PushMessage, PushSubscriptionRecord, PushTransport, PushTransportError } from "./types.ts";
+
+/**
+ * Local stand-in for a browser push service: writes each push as a JSON file
+ * so the pipeline can be exercised without real devices. Subscriptions whose
+ * endpoint ends in "/expired" fail as a browser would for a dropped device.
+ */
+export function createLocalPushTransport(): PushTransport {
+  const directory = Deno.env.get("PUSH_OUTBOX_DIR") ?? "/tmp/push-outbox";
+
+  return {
+    name: "local",
+
+    async send(subscription: PushSubscriptionRecord, message: PushMessage): Promise<void> {
+      if (subscription.endpoint.endsWith("/expired")) {
+        throw new PushTransportError("local", "Subscription has expired", { expired: true });
+      }
+
+      const path = `${directory}/${new Date().toISOString().replace(/[:.]/g, "-")}-${subscription.id}.json`;
+
+      await Deno.mkdir(directory, { recursive: true });
+      await Deno.writeTextFile(path, JSON.stringify({ endpoint: subscription.endpoint, ...message }, null, 2));
+
+      console.log(`📲 Wrote push for ${subscription.endpoint} to ${path}`);
+    },
+  };
+}
@@ -0,0 +1,38 @@
+/** A browser push subscription as stored in `push_subscriptions`. */
+export interface PushSubscriptionRecord {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+/** What the service worker receives and shows. */
+export interface PushMessage {
+  title: string;
+  body: string;
+  /** App path to open when the notification is clicked. */
+  url: string;
+  /** Lets a newer push replace an older one about the same thing. */
+  tag?: string;
+}
+
+export interface PushTransport {
+  readonly name: string;
+  send(subscription: PushSubscriptionRecord, message: PushMessage): Promise<void>;
+}
+
+/**
+ * Thrown when a push could not be delivered. `expired` means the browser has
+ * dropped the subscription (404 or 410), so it should be deleted.
+ */
+export class PushTransportError extends Error {
+  readonly transport: string;
+  readonly expired: boolean;
+
+  constructor(transport: string, message: string, options: { expired: boolean }) {
+    super(message);
+    this.name = "PushTransportError";
+    this.transport = transport;
+    this.expired = options.expired;
+  }
+}
@@ -0,0 +1,37 @@
+import webpush from "npm:web-push@3.6.7";
+import { requireEnv } from "../email/types.ts";
+import { PushMessage, PushSubscriptionRecord, PushTransport, PushTransportError } from "./types.ts";
+
+/**
+ * Sends encrypted Web Push messages signed with the VAPID key pair.
+ * Generate a pair once with `npx web-push generate-vapid-keys`.
+ */
+export function createWebPushTransport(): PushTransport {
+  webpush.setVapidDetails(
+    requireEnv("VAPID_SUBJECT"),
+    requireEnv("VAPID_PUBLIC_KEY"),
+    requireEnv("VAPID_PRIVATE_KEY"),
+  );
+
+  return {
+    name: "webpush",
+
+    async send(subscription: PushSubscriptionRecord, message: PushMessage): Promise<void> {
+      try {
+        await webpush.sendNotification(
+          {
+            endpoint: subscription.endpoint,
+            keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+          },
+          JSON.stringify(message),
+          { TTL: 60 * 60 },
+        );
+      } catch (error) {
+        const statusCode = (error as { statusCode?: number }).statusCode;
+        throw new PushTransportError("webpush", (error as Error).message, {
+          expired: statusCode === 404 || statusCode === 410,
+        });
+      }
+    },
+  };
+}
@@ -0,0 +1,13 @@
+const BASE_DELAY_SECONDS = Number(Deno.env.get("NOTIFICATION_RETRY_BASE_SECONDS") ?? "60");
+const MAX_DELAY_SECONDS = Number(Deno.env.get("NOTIFICATION_RETRY_MAX_SECONDS") ?? "3600");
+
+/**
+ * When to retry after `attempts` failed attempts: exponential backoff from
+ * BASE_DELAY_SECONDS, capped at MAX_DELAY_SECONDS, with the upper half of
+ * the delay randomised so rows that failed together don't retry together.
+ */
+export function nextAttemptAt(attempts: number, from: Date = new Date()): Date {
+  const delay = Math.min(MAX_DELAY_SECONDS, BASE_DELAY_SECONDS * 2 ** Math.max(0, attempts - 1));
+  const jittered = delay / 2 + Math.random() * (delay / 2);
+  return new Date(from.getTime() + jittered * 1000);
+}
@@ -0,0 +1,58 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.56.0";
+
+export interface RunTotals {
+  processed: number;
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Records the start of a scheduled job in `scheduler_runs` and returns its
+ * ID. A failure to record is logged but never stops the job itself.
+ */
+export async function startRun(supabase: SupabaseClient, job: string, trigger: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("scheduler_runs")
+    .insert({ job, trigger })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error(`Error recording start of ${job} run:`, error);
+    return null;
+  }
+  return data.id;
+}
+
+export async function finishRun(
+  supabase: SupabaseClient,
+  runId: string | null,
+  totals: RunTotals,
+  error?: unknown,
+): Promise<void> {
+  if (!runId) return;
+
+  const { error: updateError } = await supabase
+    .from("scheduler_runs")
+    .update({
+      ...totals,
+      status: error ? "failed" : "succeeded",
+      error: error ? (error as Error).message ?? String(error) : null,
+      finished_at: new Date().toISOString(),
+    })
+    .eq("id", runId);
+
+  if (updateError) {
+    console.error(`Error recording end of run ${runId}:`, updateError);
+  }
+}
+
+/** Reads the optional `trigger` field from a JSON request body. */
+export async function readTrigger(req: Request, fallback = "manual"): Promise<string> {
+  try {
+    const body = await req.json();
+    return typeof body?.trigger === "string" ? body.trigger : fallback;
+  } catch {
+    return fallback;
+  }
+}
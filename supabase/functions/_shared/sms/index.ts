@@ -0,0 +1,25 @@
+import { createStubProvider } from "./stub.ts";
+import { createTwilioProvider } from "./twilio.ts";
+import type { SmsProvider } from "./types.ts";
+
+export type { SmsMessage, SmsProvider, SmsResult } from "./types.ts";
+export { SMS_MAX_LENGTH, SmsProviderError, truncateSms } from "./types.ts";
+
+/**
+ * Returns the provider selected by SMS_PROVIDER ("twilio", "stub" or
+ * "none"). Returns null when SMS is switched off, which is the default.
+ */
+export function getSmsProvider(): SmsProvider | null {
+  const driver = (Deno.env.get("SMS_PROVIDER") ?? "none").toLowerCase();
+
+  switch (driver) {
+    case "twilio":
+      return createTwilioProvider();
+    case "stub":
+      return createStubProvider();
+    case "none":
+      return null;
+    default:
+      throw new Error(`Unknown SMS_PROVIDER "${driver}"`);
+  }
+}
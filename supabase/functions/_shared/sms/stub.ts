@@ -0,0 +1,25 @@
+import { SmsMessage, SmsProvider, SmsResult } from "./types.ts";
+
+/**
+ * Local development driver: writes each text as a JSON file instead of
+ * sending it, so verification codes and notifications can be read without
+ * a phone.
+ */
+export function createStubProvider(): SmsProvider {
+  const directory = Deno.env.get("SMS_OUTBOX_DIR") ?? "/tmp/sms-outbox";
+
+  return {
+    name: "stub",
+
+    async send(message: SmsMessage): Promise<SmsResult> {
+      const messageId = crypto.randomUUID();
+      const path = `${directory}/${new Date().toISOString().replace(/[:.]/g, "-")}-${messageId}.json`;
+
+      await Deno.mkdir(directory, { recursive: true });
+      await Deno.writeTextFile(path, JSON.stringify({ messageId, ...message }, null, 2));
+
+      console.log(`💬 Wrote SMS for ${message.to} to ${path}`);
+      return { messageId };
+    },
+  };
+}
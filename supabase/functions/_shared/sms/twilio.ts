@@ -0,0 +1,37 @@
+import { requireEnv } from "../email/types.ts";
+import { SmsMessage, SmsProvider, SmsProviderError, SmsResult } from "./types.ts";
+
+/** Sends through the Twilio Messages API. */
+export function createTwilioProvider(): SmsProvider {
+  const accountSid = requireEnv("TWILIO_ACCOUNT_SID");
+  const authToken = requireEnv("TWILIO_AUTH_TOKEN");
+  const from = requireEnv("TWILIO_FROM");
+
+  return {
+    name: "twilio",
+
+    async send(message: SmsMessage): Promise<SmsResult> {
+      const response = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+        {
+          method: "POST",
+          headers: {
+            "Authorization": `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: new URLSearchParams({ To: message.to, From: from, Body: message.text }),
+        },
+      );
+
+      const responseText = await response.text();
+
+      if (!response.ok) {
+        const retryable = response.status === 429 || response.status >= 500;
+        throw new SmsProviderError("twilio", `Twilio responded ${response.status}: ${responseText}`, { retryable });
+      }
+
+      const { sid } = JSON.parse(responseText) as { sid?: string };
+      return { messageId: sid ?? null };
+    },
+  };
+}
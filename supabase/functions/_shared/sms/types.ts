@@ -0,0 +1,40 @@
+/** A single outgoing text message. `to` is an E.164 number. */
+export interface SmsMessage {
+  to: string;
+  text: string;
+}
+
+export interface SmsResult {
+  /** Provider message ID, when the provider returns one. */
+  messageId: string | null;
+}
+
+/** What every SMS provider driver implements. */
+export interface SmsProvider {
+  readonly name: string;
+  send(message: SmsMessage): Promise<SmsResult>;
+}
+
+/**
+ * Thrown by providers when a message could not be delivered. `retryable` is
+ * false when resending can never succeed (invalid or unreachable number).
+ */
+export class SmsProviderError extends Error {
+  readonly provider: string;
+  readonly retryable: boolean;
+
+  constructor(provider: string, message: string, options: { retryable: boolean }) {
+    super(message);
+    this.name = "SmsProviderError";
+    this.provider = provider;
+    this.retryable = options.retryable;
+  }
+}
+
+/** Texts longer than this are cut short; it is two concatenated SMS segments. */
+export const SMS_MAX_LENGTH = 306;
+
+export function truncateSms(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > SMS_MAX_LENGTH ? `${flat.slice(0, SMS_MAX_LENGTH - 1)}…` : flat;
+}
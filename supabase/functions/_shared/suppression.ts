@@ -0,0 +1,18 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.56.0";
+
+/**
+ * Which of `emails` hard-bounced or complained, lower-cased. Those addresses
+ * are never emailed; the notification still goes out on its other channels.
+ */
+export async function suppressedAddresses(supabase: SupabaseClient, emails: string[]): Promise<Set<string>> {
+  const addresses = [...new Set(emails.filter(Boolean).map((email) => email.toLowerCase()))];
+  if (addresses.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from("suppressed_addresses")
+    .select("email")
+    .in("email", addresses);
+
+  if (error) throw error;
+  return new Set((data ?? []).map((row: { email: string }) => row.email));
+}
@@ -0,0 +1,339 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.56.0";
+
+export type NotificationKind = "scheduled" | "rescheduled" | "reminder" | "cancelled" | "manual" | "digest" | "announcement";
+
+/** SMS templates are short and have no subject. */
+export type TemplateChannel = "email" | "sms";
+
+/**
+ * Values a template can reference. Anything a lecturer or student typed
+ * (titles, venues, reasons, notes) is escaped when rendered as HTML.
+ */
+export interface TemplateVariables {
+  recipient_name: string;
+  lecture_title?: string;
+  course_title?: string;
+  course_code?: string;
+  lecture_time?: string;
+  venue?: string;
+  meeting_url?: string;
+  /** Reminders only: how long before the lecture, e.g. "2 hours". */
+  lead_time?: string;
+  /** Rescheduled only: when the lecture used to be. */
+  previous_time?: string;
+  /** Cancelled only. */
+  cancellation_reason?: string;
+  /** Manual only: optional note from the lecturer. */
+  note?: string;
+  /** Digest only: the recipient's local date, e.g. "Monday, 19 October". */
+  digest_date?: string;
+  /** Digest only: one line per lecture that day. */
+  lecture_list?: string;
+  /** Digest only: set when there are no lectures that day. */
+  no_lectures?: string;
+  /** Digest only: one line per reschedule or cancellation since the last digest. */
+  changes_list?: string;
+  /** Announcement only. */
+  announcement_title?: string;
+  /** Announcement only. */
+  announcement_body?: string;
+  /** Announcement only: the lecturer who posted it. */
+  author_name?: string;
+}
+
+/** Variables every notification about a single lecture has. */
+export interface LectureTemplateVariables extends TemplateVariables {
+  lecture_title: string;
+  course_title: string;
+  course_code: string;
+  lecture_time: string;
+  venue: string;
+  meeting_url: string;
+}
+
+const LECTURE_VARIABLES: (keyof TemplateVariables)[] = [
+  "recipient_name",
+  "lecture_title",
+  "course_title",
+  "course_code",
+  "lecture_time",
+  "venue",
+  "meeting_url",
+];
+
+/** Variables each kind of template can use. */
+export const KIND_VARIABLES: Record<NotificationKind, (keyof TemplateVariables)[]> = {
+  scheduled: LECTURE_VARIABLES,
+  rescheduled: [...LECTURE_VARIABLES, "previous_time"],
+  reminder: [...LECTURE_VARIABLES, "lead_time"],
+  cancelled: [...LECTURE_VARIABLES, "cancellation_reason"],
+  manual: [...LECTURE_VARIABLES, "note"],
+  digest: ["recipient_name", "digest_date", "lecture_list", "no_lectures", "changes_list"],
+  announcement: ["recipient_name", "course_title", "course_code", "announcement_title", "announcement_body", "author_name"],
+};
+
+export interface NotificationTemplate {
+  subject: string;
+  body: string;
+}
+
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const DEFAULT_LOCALE = "en";
+
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function lookup(vars: TemplateVariables, name: string): string {
+  const value = (vars as unknown as Record<string, string | undefined>)[name];
+  return value ?? "";
+}
+
+function fill(template: string, vars: TemplateVariables, encode: (value: string) => string): string {
+  return template
+    // Optional blocks only render when their variable has a value
+    .replace(SECTION_PATTERN, (_, name: string, inner: string) => (lookup(vars, name) ? inner : ""))
+    .replace(VARIABLE_PATTERN, (_, name: string) => encode(lookup(vars, name)));
+}
+
+/** Placeholders in a template that aren't known variables for its kind. */
+export function unknownVariables(template: NotificationTemplate, kind: NotificationKind): string[] {
+  const allowed = new Set<string>(KIND_VARIABLES[kind]);
+  const source = `${template.subject}\n${template.body}`;
+  const names = [...source.matchAll(/\{\{[#/]?(\w+)\}\}/g)].map((match) => match[1]);
+  return [...new Set(names)].filter((name) => !allowed.has(name));
+}
+
+export function renderTemplate(template: NotificationTemplate, vars: TemplateVariables): RenderedNotification {
+  // Subjects become a header, so never let a value break onto a new line
+  const subject = fill(template.subject, vars, (value) => value.replace(/[\r\n]+/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+  const text = fill(template.body, vars, (value) => value).trim();
+  const html = fill(template.body, vars, escapeHtml)
+    .trim()
+    .replace(/\r?\n/g, "<br>\n");
+
+  return { subject, text, html };
+}
+
+/** Appends the unsubscribe link every email carries, whatever its template says. */
+export function withUnsubscribeFooter(rendered: RenderedNotification, url: string): RenderedNotification {
+  return {
+    subject: rendered.subject,
+    text: `${rendered.text}\n\n--\nDon't want these emails? Unsubscribe: ${url}`,
+    html: `${rendered.html}<br>\n<br>\n<small>Don't want these emails? <a href="${escapeHtml(url)}">Unsubscribe</a></small>`,
+  };
+}
+
+export function formatLeadTime(minutes: number): string {
+  if (minutes % 1440 === 0) {
+    const days = minutes / 1440;
+    return `${days} ${days === 1 ? "day" : "days"}`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} ${hours === 1 ? "hour" : "hours"}`;
+  }
+  return `${minutes} ${minutes === 1 ? "minute" : "minutes"}`;
+}
+
+/** Always names the zone, since the reader may not be where the lecture is. */
+export function formatLectureTime(iso: string, locale: string, timeZone: string): string {
+  return new Date(iso).toLocaleString(locale, {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+    timeZoneName: "short",
+  });
+}
+
+/** The lecture, course and recipient a notification is about. */
+export interface NotificationContext {
+  recipientName: string | null;
+  lecture: {
+    title: string;
+    scheduled_at: string;
+    location: string | null;
+    meeting_url: string | null;
+    cancellation_reason?: string | null;
+    course: { title: string; course_code: string } | null;
+  } | null;
+  offsetMinutes?: number | null;
+  payload?: Record<string, unknown> | null;
+}
+
+export function buildTemplateVariables(
+  context: NotificationContext,
+  locale: string,
+  timeZone: string,
+): LectureTemplateVariables {
+  const { lecture, payload } = context;
+  const previous = payload?.previous_scheduled_at as string | undefined;
+
+  return {
+    recipient_name: context.recipientName || "Student",
+    lecture_title: lecture?.title ?? "",
+    course_title: lecture?.course?.title ?? "",
+    course_code: lecture?.course?.course_code ?? "",
+    lecture_time: lecture ? formatLectureTime(lecture.scheduled_at, locale, timeZone) : "",
+    venue: lecture?.location ?? "",
+    meeting_url: lecture?.meeting_url ?? "",
+    lead_time: context.offsetMinutes ? formatLeadTime(context.offsetMinutes) : undefined,
+    previous_time: previous ? formatLectureTime(previous, locale, timeZone) : undefined,
+    cancellation_reason: (payload?.cancellation_reason as string | undefined) ?? lecture?.cancellation_reason ?? undefined,
+    note: payload?.note as string | undefined,
+  };
+}
+
+/** A lecture as listed in a digest's payload. */
+interface DigestLecture {
+  lecture_id: string;
+  title: string;
+  course_code: string;
+  scheduled_at: string;
+  location: string | null;
+  meeting_url: string | null;
+}
+
+/** A reschedule or cancellation as listed in a digest's payload. */
+interface DigestChange {
+  kind: "rescheduled" | "cancelled";
+  lecture_id: string;
+  title: string;
+  course_code: string;
+  scheduled_at: string;
+  previous_scheduled_at: string | null;
+  cancellation_reason: string | null;
+}
+
+export interface DigestPayload {
+  digest_date: string;
+  timezone: string;
+  lectures: DigestLecture[];
+  changes: DigestChange[];
+}
+
+export function buildDigestVariables(
+  recipientName: string | null,
+  payload: DigestPayload,
+  locale: string,
+): TemplateVariables {
+  const { timezone: timeZone } = payload;
+  const time = (iso: string) => new Date(iso).toLocaleTimeString(locale, { timeStyle: "short", timeZone });
+
+  const lectureList = payload.lectures.map((lecture) => {
+    const moved = payload.changes.find((change) =>
+      change.lecture_id === lecture.lecture_id && change.kind === "rescheduled" && change.previous_scheduled_at
+    );
+
+    return [
+      `• ${time(lecture.scheduled_at)} ${lecture.course_code}: ${lecture.title}`,
+      lecture.location,
+      lecture.meeting_url,
+      moved ? `moved from ${formatLectureTime(moved.previous_scheduled_at!, locale, timeZone)}` : null,
+    ].filter(Boolean).join(" · ");
+  });
+
+  const changesList = payload.changes.map((change) =>
+    change.kind === "cancelled"
+      ? `• Cancelled: ${change.course_code}: ${change.title} on ${formatLectureTime(change.scheduled_at, locale, timeZone)}` +
+        (change.cancellation_reason ? ` (${change.cancellation_reason})` : "")
+      : `• Moved: ${change.course_code}: ${change.title} to ${formatLectureTime(change.scheduled_at, locale, timeZone)}` +
+        (change.previous_scheduled_at ? ` (was ${formatLectureTime(change.previous_scheduled_at, locale, timeZone)})` : "")
+  );
+
+  return {
+    recipient_name: recipientName || "Student",
+    // A bare date is midnight UTC; format it as such so the day doesn't shift
+    digest_date: new Date(payload.digest_date).toLocaleDateString(locale, {
+      weekday: "long",
+      day: "numeric",
+      month: "long",
+      timeZone: "UTC",
+    }),
+    lecture_list: lectureList.join("\n"),
+    no_lectures: lectureList.length === 0 ? "yes" : "",
+    changes_list: changesList.join("\n"),
+  };
+}
+
+/** What `publish_announcement` puts in an announcement notification's payload. */
+export interface AnnouncementPayload {
+  title: string;
+  body: string;
+  author_name: string;
+  course_id: string;
+  course_title: string;
+  course_code: string;
+}
+
+export function buildAnnouncementVariables(recipientName: string | null, payload: AnnouncementPayload): TemplateVariables {
+  return {
+    recipient_name: recipientName || "Student",
+    course_title: payload.course_title,
+    course_code: payload.course_code,
+    announcement_title: payload.title,
+    announcement_body: payload.body,
+    author_name: payload.author_name,
+  };
+}
+
+/**
+ * Loads templates on demand and caches them for the life of the renderer.
+ * Falls back to the default locale when a recipient's locale has no template.
+ */
+export function createTemplateRenderer(supabase: SupabaseClient) {
+  const cache = new Map<string, NotificationTemplate | null>();
+
+  const load = async (
+    kind: NotificationKind,
+    locale: string,
+    channel: TemplateChannel,
+  ): Promise<NotificationTemplate | null> => {
+    const key = `${kind}:${locale}:${channel}`;
+    if (!cache.has(key)) {
+      const { data, error } = await supabase
+        .from("notification_templates")
+        .select("subject, body")
+        .eq("kind", kind)
+        .eq("locale", locale)
+        .eq("channel", channel)
+        .maybeSingle();
+
+      if (error) throw error;
+      cache.set(key, data);
+    }
+    return cache.get(key) ?? null;
+  };
+
+  return async (
+    kind: NotificationKind,
+    locale: string,
+    vars: TemplateVariables,
+    channel: TemplateChannel = "email",
+  ): Promise<RenderedNotification> => {
+    const template = (await load(kind, locale, channel)) ?? (await load(kind, DEFAULT_LOCALE, channel));
+    if (!template) {
+      throw new Error(`No ${channel} notification template for "${kind}" (${locale})`);
+    }
+    return renderTemplate(template, vars);
+  };
+}
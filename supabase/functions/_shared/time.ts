@@ -0,0 +1,85 @@
+/**
+ * Timezone helpers built on Intl, so DST transitions follow the tz database
+ * rather than fixed offsets.
+ */
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+/** The calendar date an instant falls on in `timeZone`. */
+export function zonedDate(instant: Date, timeZone: string): CalendarDate {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)!.value);
+
+  return { year: part("year"), month: part("month"), day: part("day") };
+}
+
+/** Milliseconds `timeZone` is ahead of UTC at `instant`. */
+function zoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)!.value);
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/** The instant local midnight starts `date` in `timeZone`. */
+export function startOfZonedDay(date: CalendarDate, timeZone: string): Date {
+  const midnightUtc = Date.UTC(date.year, date.month - 1, date.day);
+  // Correct once more in case the first guess landed across a DST change
+  let instant = midnightUtc - zoneOffset(new Date(midnightUtc), timeZone);
+  instant = midnightUtc - zoneOffset(new Date(instant), timeZone);
+
+  return new Date(instant);
+}
+
+/**
+ * [start, end) of the local day `daysAhead` days after the one `from` falls
+ * on in `timeZone`. A day can be 23 or 25 hours long around DST changes.
+ */
+export function zonedDayRange(timeZone: string, daysAhead = 0, from = new Date()): { start: Date; end: Date } {
+  const today = zonedDate(from, timeZone);
+  // Date.UTC normalises day overflow into the next month or year
+  const dayAt = (offset: number) => {
+    const shifted = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+  };
+
+  return {
+    start: startOfZonedDay(dayAt(daysAhead), timeZone),
+    end: startOfZonedDay(dayAt(daysAhead + 1), timeZone),
+  };
+}
+
+/** Falls back to UTC for missing or unknown zone names. */
+export function resolveTimezone(...candidates: (string | null | undefined)[]): string {
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: candidate });
+      return candidate;
+    } catch {
+      console.warn(`Ignoring unknown timezone "${candidate}"`);
+    }
+  }
+  return DEFAULT_TIMEZONE;
+}
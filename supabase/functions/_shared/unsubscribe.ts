@@ -0,0 +1,94 @@
+import { requireEnv } from "./email/types.ts";
+
+/** What an unsubscribe link lets its holder turn off. */
+export interface UnsubscribeClaims {
+  /** Recipient the link was sent to. */
+  userId: string;
+  /** Preference kind of the email, e.g. "reminder". */
+  kind: string;
+  /** Course the email was about, when it was about one. */
+  courseId: string | null;
+  /** Expiry, in seconds since the epoch. */
+  exp: number;
+}
+
+// Long enough to cover a term's worth of old emails
+const TOKEN_TTL_DAYS = 60;
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4)), (char) => char.charCodeAt(0));
+}
+
+async function signingKey(): Promise<CryptoKey> {
+  return await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(requireEnv("UNSUBSCRIBE_SECRET")),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+/** Manual reminders are governed by the reminder preference. */
+export function preferenceKind(kind: string): string {
+  return kind === "manual" ? "reminder" : kind;
+}
+
+export async function createUnsubscribeToken(
+  claims: Omit<UnsubscribeClaims, "exp">,
+  now = new Date(),
+): Promise<string> {
+  const payload: UnsubscribeClaims = {
+    ...claims,
+    exp: Math.floor(now.getTime() / 1000) + TOKEN_TTL_DAYS * 24 * 60 * 60,
+  };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign("HMAC", await signingKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/** Returns the claims, or null when the token is malformed, forged or expired. */
+export async function verifyUnsubscribeToken(token: string, now = new Date()): Promise<UnsubscribeClaims | null> {
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await signingKey(),
+      fromBase64Url(signature),
+      encoder.encode(body),
+    );
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as UnsubscribeClaims;
+    return claims.exp * 1000 > now.getTime() ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The page a recipient opens from the email footer, and the headers mail
+ * clients use for one-click unsubscribe (RFC 8058). The one-click URL is the
+ * `unsubscribe` edge function itself, since mail clients POST to it directly.
+ */
+export function unsubscribeLinks(token: string): { pageUrl: string; headers: Record<string, string> } {
+  const appUrl = requireEnv("APP_URL").replace(/\/$/, "");
+  const oneClickUrl = `${requireEnv("SUPABASE_URL")}/functions/v1/unsubscribe?token=${encodeURIComponent(token)}`;
+
+  return {
+    pageUrl: `${appUrl}/unsubscribe?token=${encodeURIComponent(token)}`,
+    headers: {
+      "List-Unsubscribe": `<${oneClickUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  };
+}
@@ -0,0 +1,160 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.56.0';
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, content-type",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+interface EmailEvent {
+  type: "bounce" | "complaint" | "open";
+  /** Bounces and complaints only. */
+  email?: string;
+  /** Bounces only. Transient bounces (full mailbox, greylisting) are not suppressed. Defaults to permanent. */
+  bounce_type?: "permanent" | "transient";
+  /** Provider's diagnostic, e.g. "550 5.1.1 user unknown". */
+  detail?: string;
+  /** Provider message id of the email that bounced or was opened. Required for opens. */
+  message_id?: string;
+  /** Opens only. Anything else the provider reported, kept on the timeline. */
+  data?: Record<string, unknown>;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+}
+
+function validate(event: unknown): string | null {
+  const candidate = event as Partial<EmailEvent> | null;
+  if (!candidate || typeof candidate !== "object") return "event must be an object";
+  if (candidate.type !== "bounce" && candidate.type !== "complaint" && candidate.type !== "open") {
+    return 'type must be "bounce", "complaint" or "open"';
+  }
+  if (candidate.type === "open") {
+    return typeof candidate.message_id === "string" && candidate.message_id ? null : "message_id is required for opens";
+  }
+  if (typeof candidate.email !== "string" || !candidate.email.includes("@")) return "email must be an address";
+  if (candidate.bounce_type !== undefined && candidate.bounce_type !== "permanent" && candidate.bounce_type !== "transient") {
+    return 'bounce_type must be "permanent" or "transient"';
+  }
+  return null;
+}
+
+// Compares in constant time so the secret can't be guessed a byte at a time
+function secretMatches(given: string, expected: string): boolean {
+  const a = new TextEncoder().encode(given);
+  const b = new TextEncoder().encode(expected);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < b.length; i++) {
+    diff |= (a[i] ?? 0) ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * Webhook for the email provider's bounce, complaint and open notifications. There
+ * is no user JWT (see config.toml); the caller sends
+ * `Authorization: Bearer <EMAIL_WEBHOOK_SECRET>` instead.
+ *
+ * The body is one event or `{ "events": [...] }`:
+ *
+ *     {
+ *       "type": "bounce",              // or "complaint"
+ *       "email": "student@example.com",
+ *       "bounce_type": "permanent",    // optional; "transient" is ignored
+ *       "detail": "550 5.1.1 user unknown",
+ *       "message_id": "<provider id>"
+ *     }
+ *
+ *     { "type": "open", "message_id": "<provider id>", "data": { ... } }
+ *
+ * Permanent bounces and complaints add the address to `suppressed_addresses`
+ * and flag every profile emailed at it. Opens are added to the timeline of
+ * the notification sent with that message id. Responds with how many events
+ * were recorded and ignored.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const secret = Deno.env.get("EMAIL_WEBHOOK_SECRET");
+    if (!secret) {
+      throw new Error("EMAIL_WEBHOOK_SECRET is not set");
+    }
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    if (!secretMatches(token, secret)) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const body = await req.json();
+    const events: unknown[] = Array.isArray(body?.events) ? body.events : [body];
+
+    // Reject the whole batch so the provider retries it once the sender is fixed
+    for (const [index, event] of events.entries()) {
+      const problem = validate(event);
+      if (problem) {
+        return json({ error: `Event ${index}: ${problem}` }, 400);
+      }
+    }
+
+    let recorded = 0;
+    let ignored = 0;
+    let flaggedProfiles = 0;
+
+    for (const event of events as EmailEvent[]) {
+      if (event.type === "open") {
+        const { data: opened, error } = await supabase.rpc('record_email_open', {
+          p_provider_message_id: event.message_id!,
+          p_payload: event.data ?? {},
+        });
+
+        if (error) throw error;
+
+        // Not one of ours, or sent before message ids were kept
+        if (opened) {
+          recorded++;
+        } else {
+          ignored++;
+        }
+        continue;
+      }
+
+      if (event.type === "bounce" && event.bounce_type === "transient") {
+        ignored++;
+        continue;
+      }
+
+      const { data: flagged, error } = await supabase.rpc('record_email_suppression', {
+        p_email: event.email!,
+        p_reason: event.type,
+        p_detail: event.detail ?? null,
+        p_provider_message_id: event.message_id ?? null,
+      });
+
+      if (error) throw error;
+
+      console.log(`Suppressed ${event.email} after a ${event.type} (${flagged} profile(s) flagged)`);
+      recorded++;
+      flaggedProfiles += flagged ?? 0;
+    }
+
+    return json({ recorded, ignored, flaggedProfiles });
+  } catch (error) {
+    console.error("Error in email-events function:", error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
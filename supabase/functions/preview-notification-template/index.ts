@@ -0,0 +1,164 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.56.0';
+import { truncateSms } from "../_shared/sms/index.ts";
+import {
+  buildAnnouncementVariables,
+  buildDigestVariables,
+  formatLeadTime,
+  formatLectureTime,
+  type NotificationKind,
+  renderTemplate,
+  type TemplateVariables,
+  unknownVariables,
+} from "../_shared/templates.ts";
+import { resolveTimezone } from "../_shared/time.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const KINDS: NotificationKind[] = ["scheduled", "rescheduled", "reminder", "cancelled", "manual", "digest", "announcement"];
+
+// Sample values deliberately include markup to show that it is escaped
+function sampleVariables(locale: string, timeZone: string): TemplateVariables {
+  const lectureAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  lectureAt.setMinutes(0, 0, 0);
+  const previousAt = new Date(lectureAt.getTime() - 2 * 60 * 60 * 1000);
+
+  return {
+    recipient_name: "Ada Lovelace",
+    lecture_title: "Week 5: Graphs & <Trees>",
+    course_title: "Data Structures",
+    course_code: "CSC 201",
+    lecture_time: formatLectureTime(lectureAt.toISOString(), locale, timeZone),
+    venue: "Lecture Theatre 2",
+    meeting_url: "https://meet.example.com/csc201",
+    lead_time: formatLeadTime(120),
+    previous_time: formatLectureTime(previousAt.toISOString(), locale, timeZone),
+    cancellation_reason: "Lecturer unwell",
+    note: "Please bring your laptops.",
+  };
+}
+
+function sampleDigestVariables(locale: string, timeZone: string): TemplateVariables {
+  const today = new Date();
+  const at = (hour: number) => {
+    const date = new Date(today);
+    date.setUTCHours(hour, 0, 0, 0);
+    return date.toISOString();
+  };
+
+  return buildDigestVariables("Ada Lovelace", {
+    digest_date: today.toISOString().slice(0, 10),
+    timezone: timeZone,
+    lectures: [
+      {
+        lecture_id: "sample-1",
+        title: "Week 5: Graphs & <Trees>",
+        course_code: "CSC 201",
+        scheduled_at: at(9),
+        location: "Lecture Theatre 2",
+        meeting_url: null,
+      },
+      {
+        lecture_id: "sample-2",
+        title: "Linear Algebra Review",
+        course_code: "MTH 202",
+        scheduled_at: at(14),
+        location: null,
+        meeting_url: "https://meet.example.com/mth202",
+      },
+    ],
+    changes: [
+      {
+        kind: "rescheduled",
+        lecture_id: "sample-2",
+        title: "Linear Algebra Review",
+        course_code: "MTH 202",
+        scheduled_at: at(14),
+        previous_scheduled_at: at(11),
+        cancellation_reason: null,
+      },
+    ],
+  }, locale);
+}
+
+function sampleAnnouncementVariables(): TemplateVariables {
+  return buildAnnouncementVariables("Ada Lovelace", {
+    title: "Lab moved to <Room 4>",
+    body: "This week's lab is in Room 4 while the usual lab is being refitted. Bring your lab coat.",
+    author_name: "Dr. Grace Hopper",
+    course_id: "sample-course",
+    course_title: "Data Structures",
+    course_code: "CSC 201",
+  });
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Only admins edit templates
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return json({ error: "Not signed in" }, 401);
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (profile?.role !== 'admin') {
+      return json({ error: "Only admins can preview templates" }, 403);
+    }
+
+    const { kind, locale = "en", channel = "email", subject = "", body = "" } = await req.json();
+
+    if (!KINDS.includes(kind)) {
+      return json({ error: `Unknown notification kind: ${kind}` }, 400);
+    }
+    if (channel !== "email" && !(channel === "sms" && kind !== "digest")) {
+      return json({ error: `No ${channel} template for ${kind}` }, 400);
+    }
+
+    const template = { subject, body };
+    // Show times the way most recipients will see them
+    const { data: settings } = await supabase
+      .from('institution_settings')
+      .select('timezone')
+      .maybeSingle();
+    const timeZone = resolveTimezone(settings?.timezone);
+
+    const vars = kind === "digest"
+      ? sampleDigestVariables(locale, timeZone)
+      : kind === "announcement"
+      ? sampleAnnouncementVariables()
+      : sampleVariables(locale, timeZone);
+    const rendered = renderTemplate(template, vars);
+
+    // Texts are cut to SMS_MAX_LENGTH when sent, so show what will actually arrive
+    const text = channel === "sms" ? truncateSms(rendered.text) : rendered.text;
+
+    return json({ ...rendered, text, unknownVariables: unknownVariables(template, kind) });
+  } catch (error) {
+    console.error("Error in preview-notification-template function:", error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
@@ -1,4 +1,22 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.56.0';
+import { EmailTransportError, getEmailTransport, type SendResult } from "../_shared/email/index.ts";
+import { recordAttempt } from "../_shared/events.ts";
+import { getPushTransport, pushToUser } from "../_shared/push/index.ts";
+import { nextAttemptAt } from "../_shared/retry.ts";
+import { finishRun, readTrigger, startRun } from "../_shared/scheduler.ts";
+import { getSmsProvider, SmsProviderError, truncateSms } from "../_shared/sms/index.ts";
+import { suppressedAddresses } from "../_shared/suppression.ts";
+import {
+  type AnnouncementPayload,
+  buildAnnouncementVariables,
+  buildDigestVariables,
+  buildTemplateVariables,
+  createTemplateRenderer,
+  type DigestPayload,
+  withUnsubscribeFooter,
+} from "../_shared/templates.ts";
+import { resolveTimezone } from "../_shared/time.ts";
+import { createUnsubscribeToken, preferenceKind, unsubscribeLinks } from "../_shared/unsubscribe.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,6 +29,16 @@ const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+const BATCH_SIZE = 50;
+// Must comfortably exceed the time to send a full batch
+const LEASE_SECONDS = 300;
+const PUSH_BODY_LENGTH = 200;
+
+function pushBody(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > PUSH_BODY_LENGTH ? `${flat.slice(0, PUSH_BODY_LENGTH - 1)}…` : flat;
+}
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -19,40 +47,70 @@ Deno.serve(async (req: Request) => {
     });
   }
 
+  // Heartbeat for the scheduler status shown to admins
+  const trigger = await readTrigger(req);
+  const runId = await startRun(supabase, 'process-notifications', trigger);
+  let successCount = 0;
+  let failCount = 0;
+
   try {
-    console.log("Processing pending notifications...");
+    console.log(`Processing pending notifications (${trigger})...`);
     
-    // Get pending notifications that are due
+    // Resolve the transport before claiming so a config error doesn't strand claimed rows
+    const transport = getEmailTransport();
+    const pushTransport = getPushTransport();
+    const smsProvider = getSmsProvider();
+
+    // Claim due rows atomically so concurrent runs never send the same one
+    const workerId = crypto.randomUUID();
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_due_notifications', {
+      p_worker: workerId,
+      p_limit: BATCH_SIZE,
+      p_lease_seconds: LEASE_SECONDS
+    });
+
+    if (claimError) {
+      console.error("Error claiming notifications:", claimError);
+      throw claimError;
+    }
+
+    const claimedIds = (claimed ?? []).map((row: { id: string }) => row.id);
+
     const { data: notifications, error: notificationsError } = await supabase
       .from('notifications')
       .select(`
         *,
         lecture:lecture_id (
+          course_id,
           title,
           scheduled_at,
           location,
           meeting_url,
+          cancellation_reason,
           course:course_id (
             title,
             course_code
           )
         ),
         profile:recipient_id (
-          full_name
+          full_name,
+          locale,
+          timezone,
+          phone_number,
+          phone_verified_at
         )
       `)
-      .eq('status', 'pending')
-      .lte('scheduled_for', new Date().toISOString())
-      .limit(50);
+      .in('id', claimedIds);
 
     if (notificationsError) {
       console.error("Error fetching notifications:", notificationsError);
       throw notificationsError;
     }
 
-    console.log(`Found ${notifications?.length || 0} pending notifications`);
+    console.log(`Claimed ${notifications?.length || 0} due notifications`);
 
     if (!notifications || notifications.length === 0) {
+      await finishRun(supabase, runId, { processed: 0, succeeded: 0, failed: 0 });
       return new Response(
         JSON.stringify({ message: "No pending notifications to process" }),
         { 
@@ -64,84 +122,244 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    let successCount = 0;
-    let failCount = 0;
+    const render = createTemplateRenderer(supabase);
+
+    // Recipients without a timezone of their own see the institution's
+    const { data: settings } = await supabase
+      .from('institution_settings')
+      .select('timezone')
+      .maybeSingle();
+
+    // Kinds each recipient also wants by text message
+    const smsKinds = new Map<string, string[]>();
+    if (smsProvider) {
+      const { data: preferences } = await supabase
+        .from('email_preferences')
+        .select('user_id, sms_kinds')
+        .in('user_id', [...new Set(notifications.map((n) => n.recipient_id))]);
+
+      for (const preference of preferences ?? []) {
+        smsKinds.set(preference.user_id, preference.sms_kinds ?? []);
+      }
+    }
+
+    // Addresses that bounced or complained get every channel except email
+    const suppressed = await suppressedAddresses(supabase, notifications.map((n) => n.email));
 
     for (const notification of notifications) {
+      // The claim has already counted this attempt
+      const attempts = notification.attempts;
+
       try {
-        // Prepare email data for EmailJS
-        const emailData = {
-          service_id: 'service_3ux4e79',
-          template_id: 'template_3smtuc7',
-          user_id: 'iqrbya988WpE1wUcR',
-          template_params: {
-            to_email: notification.email,
-            student_name: notification.profile?.full_name || 'Student',
-            subject: notification.subject,
-            message: notification.message,
-            lecture_title: notification.lecture?.title || '',
-            course_title: notification.lecture?.course?.title || '',
-            course_code: notification.lecture?.course?.course_code || '',
-            lecture_time: notification.lecture?.scheduled_at ? 
-              new Date(notification.lecture.scheduled_at).toLocaleString() : '',
-            location: notification.lecture?.location || 'Online',
-            meeting_url: notification.lecture?.meeting_url || ''
-          }
-        };
-
-        // Send email via EmailJS API
-        const emailResponse = await fetch("https://api.emailjs.com/api/v1.0/email/send", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(emailData)
-        });
-
-        if (emailResponse.ok) {
-          // Update notification status to sent
+        const locale = notification.profile?.locale || 'en';
+        const timeZone = resolveTimezone(notification.profile?.timezone, settings?.timezone);
+        // Digests and announcements aren't about one lecture, so they carry their own details
+        const vars = notification.kind === 'digest'
+          ? buildDigestVariables(notification.profile?.full_name, notification.payload as DigestPayload, locale)
+          : notification.kind === 'announcement'
+          ? buildAnnouncementVariables(notification.profile?.full_name, notification.payload as AnnouncementPayload)
+          : buildTemplateVariables({
+            recipientName: notification.profile?.full_name,
+            lecture: notification.lecture,
+            offsetMinutes: notification.offset_minutes,
+            payload: notification.payload
+          }, locale, timeZone);
+        const rendered = await render(notification.kind, locale, vars);
+        // Resolved from the recipient's preferences when the row was queued
+        const channels: string[] = notification.channels ?? [];
+
+        // Push goes out once, on the first attempt that gets this far, whatever happens to the email
+        if (pushTransport && channels.includes('push') && !notification.push_sent_at) {
+          const devices = await pushToUser(supabase, pushTransport, notification.recipient_id, {
+            title: rendered.subject,
+            body: pushBody(rendered.text),
+            url: notification.lecture_id
+              ? `/dashboard?tab=lectures&lecture=${notification.lecture_id}`
+              : notification.announcement_id
+              ? '/dashboard?tab=announcements'
+              : '/dashboard?tab=lectures',
+            tag: notification.id
+          });
+
           await supabase
             .from('notifications')
-            .update({
-              status: 'sent',
-              sent_at: new Date().toISOString()
-            })
+            .update({ push_sent_at: new Date().toISOString() })
             .eq('id', notification.id);
-          
-          successCount++;
-          console.log(`✅ Notification sent successfully to ${notification.email}`);
-        } else {
-          const errorText = await emailResponse.text();
-          console.error(`❌ Failed to send notification to ${notification.email}:`, errorText);
-          
-          // Update notification status to failed
+          await recordAttempt(supabase, notification.id, {
+            channel: 'push',
+            attempt: attempts,
+            payload: { transport: pushTransport.name, devices },
+            detail: devices === 0 ? 'No device accepted the message' : null
+          });
+
+          if (devices > 0) {
+            console.log(`📲 Pushed notification ${notification.id} to ${devices} device(s)`);
+          }
+        }
+
+        // Texts only go to verified numbers. A failed text is dealt with once the email has been tried
+        let smsError: unknown = null;
+        const phone = notification.profile?.phone_verified_at ? notification.profile.phone_number : null;
+        if (
+          smsProvider && phone && !notification.sms_sent_at &&
+          smsKinds.get(notification.recipient_id)?.includes(notification.kind)
+        ) {
+          try {
+            const sms = await render(notification.kind, locale, vars, 'sms');
+            const smsResult = await smsProvider.send({ to: phone, text: truncateSms(sms.text) });
+            await supabase
+              .from('notifications')
+              .update({ sms_sent_at: new Date().toISOString() })
+              .eq('id', notification.id);
+            await recordAttempt(supabase, notification.id, {
+              channel: 'sms',
+              attempt: attempts,
+              providerMessageId: smsResult.messageId,
+              payload: { provider: smsProvider.name }
+            });
+          } catch (error) {
+            console.error(`SMS for notification ${notification.id} failed:`, error);
+            await recordAttempt(supabase, notification.id, {
+              channel: 'sms',
+              attempt: attempts,
+              payload: { provider: smsProvider.name },
+              detail: (error as Error).message
+            });
+            smsError = error;
+          }
+        }
+
+        const isSuppressed = channels.includes('email') && suppressed.has(notification.email.toLowerCase());
+
+        // Every email can turn off its own kind, or its course
+        const unsubscribe = channels.includes('email') && !isSuppressed
+          ? unsubscribeLinks(await createUnsubscribeToken({
+            userId: notification.recipient_id,
+            kind: preferenceKind(notification.kind),
+            courseId: notification.lecture?.course_id ?? notification.payload?.course_id ?? null
+          }))
+          : null;
+        const email = unsubscribe ? withUnsubscribeFooter(rendered, unsubscribe.pageUrl) : rendered;
+
+        // In-app only rows are done once rendered; the inbox shows the stored text.
+        // A row retried for its text has already been emailed and isn't emailed again.
+        let result: SendResult | null = null;
+        if (unsubscribe && !notification.email_sent_at) {
+          try {
+            result = await transport.send({
+              to: notification.email,
+              subject: email.subject,
+              text: email.text,
+              html: email.html,
+              headers: unsubscribe.headers,
+              templateParams: {
+                student_name: vars.recipient_name,
+                lecture_title: vars.lecture_title ?? '',
+                course_title: vars.course_title ?? '',
+                course_code: vars.course_code ?? '',
+                lecture_time: vars.lecture_time ?? '',
+                location: vars.venue || 'Online',
+                meeting_url: vars.meeting_url ?? '',
+                unsubscribe_url: unsubscribe.pageUrl
+              }
+            });
+          } catch (error) {
+            await recordAttempt(supabase, notification.id, {
+              channel: 'email',
+              attempt: attempts,
+              payload: {
+                transport: transport.name,
+                ...(error instanceof EmailTransportError
+                  ? { response: error.response, retryable: error.retryable }
+                  : {})
+              },
+              detail: (error as Error).message
+            });
+            throw error;
+          }
+
+          await recordAttempt(supabase, notification.id, {
+            channel: 'email',
+            attempt: attempts,
+            providerMessageId: result.messageId,
+            payload: { transport: transport.name, response: result.response }
+          });
           await supabase
             .from('notifications')
-            .update({
-              status: 'failed',
-              error_message: errorText
-            })
+            .update({ email_sent_at: new Date().toISOString() })
             .eq('id', notification.id);
-          
-          failCount++;
+        }
+
+        // A failed text is retried with the row while it can still go through. Once it can't, a row
+        // that reached the student by email is sent with a note; one that didn't is given up on.
+        const emailed = !!result || !!notification.email_sent_at;
+        const smsRetryable = !(smsError instanceof SmsProviderError) || smsError.retryable;
+        if (smsError && (!emailed || (smsRetryable && attempts < notification.max_attempts))) {
+          throw smsError;
+        }
+
+        // Update notification status to sent, keeping the text that went out
+        await supabase
+          .from('notifications')
+          .update({
+            status: 'sent',
+            subject: rendered.subject,
+            message: rendered.text,
+            sent_at: new Date().toISOString(),
+            ...(result ? { provider_message_id: result.messageId } : {}),
+            locked_until: null,
+            next_attempt_at: null,
+            error_message: null,
+            ...(isSuppressed ? { status_reason: 'Email not sent: address suppressed after a bounce or complaint' } : {}),
+            ...(smsError ? { status_reason: `Text not sent: ${(smsError as Error).message}` } : {})
+          })
+          .eq('id', notification.id)
+          .eq('claimed_by', workerId);
+        
+        successCount++;
+        if (isSuppressed) {
+          console.log(`🚫 Notification ${notification.id} not emailed; ${notification.email} is suppressed`);
+        } else if (result) {
+          console.log(`✅ Notification sent via ${transport.name} to ${notification.email}`, result.messageId ?? '');
+        } else if (notification.email_sent_at) {
+          console.log(`✅ Notification ${notification.id} texted on retry; the email had already gone out`);
+        } else {
+          console.log(`✅ Notification ${notification.id} delivered without email (${channels.join(', ') || 'no channels'})`);
         }
       } catch (error) {
-        console.error(`Error processing notification ${notification.id}:`, error);
+        console.error(`❌ Failed to send notification ${notification.id} to ${notification.email}:`, error);
         
-        // Update notification status to failed
+        // Retry transient failures with backoff until attempts run out
+        const retryable = error instanceof EmailTransportError || error instanceof SmsProviderError
+          ? error.retryable
+          : true;
+        const willRetry = retryable && attempts < notification.max_attempts;
+
         await supabase
           .from('notifications')
           .update({
-            status: 'failed',
-            error_message: error.message
+            status: willRetry ? 'failed' : 'dead',
+            error_message: (error as Error).message,
+            locked_until: null,
+            next_attempt_at: willRetry ? nextAttemptAt(attempts).toISOString() : null
           })
-          .eq('id', notification.id);
+          .eq('id', notification.id)
+          .eq('claimed_by', workerId);
+
+        if (!willRetry) {
+          console.error(`☠️ Giving up on notification ${notification.id} after ${attempts} attempt(s)`);
+        }
         
         failCount++;
       }
     }
 
     console.log(`Processed notifications: ${successCount} successful, ${failCount} failed`);
+    await finishRun(supabase, runId, {
+      processed: notifications.length,
+      succeeded: successCount,
+      failed: failCount
+    });
 
     return new Response(
       JSON.stringify({
@@ -160,6 +378,11 @@ Deno.serve(async (req: Request) => {
 
   } catch (error: any) {
     console.error("Error in process-notifications function:", error);
+    await finishRun(supabase, runId, {
+      processed: successCount + failCount,
+      succeeded: successCount,
+      failed: failCount
+    }, error);
     return new Response(
       JSON.stringify({ error: error.message }),
       {
@@ -0,0 +1,268 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.56.0';
+import { buildTemplateVariables, createTemplateRenderer } from "../_shared/templates.ts";
+import { resolveTimezone } from "../_shared/time.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const NOTE_MAX_LENGTH = 500;
+
+/**
+ * Who a reminder goes to: the whole roster, only students who haven't read
+ * a notification about the lecture yet, or one section of the course.
+ */
+type Audience = "all" | "unconfirmed" | "section";
+
+const AUDIENCES: Audience[] = ["all", "unconfirmed", "section"];
+
+interface Enrollment {
+  student_id: string;
+  section: string | null;
+  profiles: {
+    full_name: string | null;
+    email: string;
+    notification_email: string | null;
+    locale: string | null;
+    timezone: string | null;
+  };
+}
+
+interface Lecture {
+  id: string;
+  title: string;
+  scheduled_at: string;
+  location: string | null;
+  meeting_url: string | null;
+  is_cancelled: boolean | null;
+  course: { id: string; lecturer_id: string | null; title: string; course_code: string } | null;
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+}
+
+/**
+ * Queues a `manual` reminder for a lecture's students. The caller must be
+ * the course's lecturer. The body is:
+ *
+ *     {
+ *       "lecture_id": "<uuid>",
+ *       "note": "Bring your lab coat",   // optional, shown in the email
+ *       "audience": "all",               // or "unconfirmed" or "section"
+ *       "section": "Lab 2",              // required for "section"
+ *       "send_at": "<ISO time>",         // optional; defaults to now
+ *       "preview": true                  // optional; render without queueing
+ *     }
+ *
+ * process-notifications renders and delivers the rows; the response carries
+ * the `batch_id` to follow them with `notification_batch_progress`.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return json({ error: "Not signed in" }, 401);
+    }
+
+    const {
+      lecture_id: lectureId,
+      note: rawNote,
+      audience = "all",
+      section,
+      send_at: sendAt,
+      preview = false,
+    } = await req.json();
+
+    if (typeof lectureId !== "string") {
+      return json({ error: "lecture_id is required" }, 400);
+    }
+
+    if (!AUDIENCES.includes(audience)) {
+      return json({ error: `Unknown audience: ${audience}` }, 400);
+    }
+
+    if (audience === "section" && (typeof section !== "string" || !section.trim())) {
+      return json({ error: "Choose a section" }, 400);
+    }
+
+    const note = typeof rawNote === "string" ? rawNote.trim() : "";
+    if (note.length > NOTE_MAX_LENGTH) {
+      return json({ error: `Keep the note under ${NOTE_MAX_LENGTH} characters` }, 400);
+    }
+
+    const { data } = await supabase
+      .from('lectures')
+      .select('id, title, scheduled_at, location, meeting_url, is_cancelled, course:courses(id, lecturer_id, title, course_code)')
+      .eq('id', lectureId)
+      .maybeSingle();
+
+    const lecture = data as unknown as Lecture | null;
+    const course = lecture?.course;
+    if (!lecture || !course) {
+      return json({ error: "Lecture not found" }, 404);
+    }
+
+    if (course.lecturer_id !== user.id) {
+      return json({ error: "Only the course lecturer can send reminders for this lecture" }, 403);
+    }
+
+    if (lecture.is_cancelled) {
+      return json({ error: "This lecture is cancelled" }, 400);
+    }
+
+    let scheduledFor = new Date();
+    if (sendAt) {
+      scheduledFor = new Date(sendAt);
+      if (Number.isNaN(scheduledFor.getTime()) || scheduledFor.getTime() <= Date.now()) {
+        return json({ error: "Choose a time in the future" }, 400);
+      }
+      if (scheduledFor >= new Date(lecture.scheduled_at)) {
+        return json({ error: "Choose a time before the lecture starts" }, 400);
+      }
+    }
+
+    let rosterQuery = supabase
+      .from('enrollments')
+      .select('student_id, section, profiles!enrollments_student_id_fkey(full_name, email, notification_email, locale, timezone)')
+      .eq('course_id', course.id)
+      .eq('is_active', true);
+
+    if (audience === "section") {
+      rosterQuery = rosterQuery.eq('section', section.trim());
+    }
+
+    const { data: enrollments, error: enrollmentsError } = await rosterQuery;
+    if (enrollmentsError) throw enrollmentsError;
+
+    let roster = (enrollments ?? []) as unknown as Enrollment[];
+    const enrolled = roster.length;
+
+    // Reading any notification about the lecture in the inbox counts as confirming it
+    if (audience === "unconfirmed" && roster.length > 0) {
+      const { data: read, error: readError } = await supabase
+        .from('notifications')
+        .select('recipient_id')
+        .eq('lecture_id', lecture.id)
+        .not('read_at', 'is', null);
+
+      if (readError) throw readError;
+
+      const confirmed = new Set((read ?? []).map((row: { recipient_id: string }) => row.recipient_id));
+      roster = roster.filter((enrollment) => !confirmed.has(enrollment.student_id));
+    }
+
+    const empty = { batch_id: null, enrolled, queued: 0, already_queued: 0, opted_out: 0, confirmed: enrolled - roster.length };
+    if (roster.length === 0) {
+      return json(preview ? { ...empty, recipients: 0, preview: null } : empty);
+    }
+
+    const studentIds = roster.map((enrollment) => enrollment.student_id);
+    const [{ data: emailPreferences }, { data: studentChannels, error: channelsError }] = await Promise.all([
+      supabase.from('email_preferences').select('user_id, notification_email').in('user_id', studentIds),
+      // Manual reminders go wherever each student wants reminders
+      supabase.rpc('notification_channels_for', {
+        p_user_ids: studentIds,
+        p_kind: 'manual',
+        p_course_id: course.id,
+      }),
+    ]);
+
+    if (channelsError) throw channelsError;
+
+    const notificationEmails = new Map<string, string | null>(
+      (emailPreferences ?? []).map((pref: { user_id: string; notification_email: string | null }) =>
+        [pref.user_id, pref.notification_email]
+      ),
+    );
+    const channels = new Map<string, string[]>(
+      (studentChannels ?? []).map((row: { user_id: string; channels: string[] }) => [row.user_id, row.channels]),
+    );
+
+    const recipients = roster.filter((enrollment) => (channels.get(enrollment.student_id) ?? []).length > 0);
+    const payload = note ? { note } : null;
+
+    if (preview) {
+      // Rendered for the first recipient, exactly as process-notifications will
+      const sample = recipients[0] ?? roster[0];
+      const { data: settings } = await supabase
+        .from('institution_settings')
+        .select('timezone')
+        .maybeSingle();
+
+      const locale = sample.profiles.locale || 'en';
+      const timeZone = resolveTimezone(sample.profiles.timezone, settings?.timezone);
+      const vars = buildTemplateVariables({
+        recipientName: sample.profiles.full_name,
+        lecture,
+        payload,
+      }, locale, timeZone);
+      const rendered = await createTemplateRenderer(supabase)('manual', locale, vars);
+
+      return json({
+        ...empty,
+        recipients: recipients.length,
+        opted_out: roster.length - recipients.length,
+        preview: { ...rendered, recipient_name: sample.profiles.full_name },
+      });
+    }
+
+    const batchId = crypto.randomUUID();
+    const notifications = recipients.map((enrollment) => ({
+      lecture_id: lecture.id,
+      recipient_id: enrollment.student_id,
+      email: notificationEmails.get(enrollment.student_id) ||
+        enrollment.profiles.notification_email ||
+        enrollment.profiles.email,
+      status: 'pending',
+      kind: 'manual',
+      scheduled_for: scheduledFor.toISOString(),
+      channels: channels.get(enrollment.student_id),
+      payload,
+      batch_id: batchId,
+    }));
+
+    let queued = 0;
+    if (notifications.length > 0) {
+      // The batch id is part of each row's idempotency key, so every send queues its own rows
+      const { data: inserted, error: insertError } = await supabase
+        .from('notifications')
+        .upsert(notifications, { onConflict: 'idempotency_key', ignoreDuplicates: true })
+        .select('id');
+
+      if (insertError) throw insertError;
+      queued = inserted?.length ?? 0;
+    }
+
+    console.log(
+      `Queued ${queued} manual reminder(s) for lecture ${lecture.id} in batch ${batchId}, ` +
+        `due ${scheduledFor.toISOString()}`,
+    );
+
+    return json({
+      ...empty,
+      batch_id: queued > 0 ? batchId : null,
+      queued,
+      already_queued: notifications.length - queued,
+      opted_out: roster.length - notifications.length,
+      scheduled_for: scheduledFor.toISOString(),
+    });
+  } catch (error) {
+    console.error("Error in queue-lecture-reminder function:", error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
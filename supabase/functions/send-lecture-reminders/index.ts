@@ -1,34 +1,29 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { resolveTimezone, zonedDayRange } from "../_shared/time.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-interface EmailJSPayload {
-  service_id: string;
-  template_id: string;
-  user_id: string;
-  template_params: {
-    to_email: string;
-    student_name: string;
-    lecture_title: string;
-    course_title: string;
-    lecture_time: string;
-    location: string;
-    meeting_url?: string;
-  };
-}
-
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-const emailjsServiceId = Deno.env.get("EMAILJS_SERVICE_ID")!;
-const emailjsTemplateId = Deno.env.get("EMAILJS_TEMPLATE_ID")!;
-const emailjsPublicKey = Deno.env.get("EMAILJS_PUBLIC_KEY")!;
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+// Lead time, in minutes, that this "tomorrow" sweep stands in for
+const DAY_BEFORE_OFFSET = 1440;
+
+// Channels a student wants this kind of notification on
+async function channelsFor(userId: string, kind: string, courseId?: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .rpc('notification_channels_for', { p_user_ids: [userId], p_kind: kind, p_course_id: courseId ?? null });
+
+  if (error) throw error;
+  return data?.[0]?.channels ?? [];
+}
+
 const handler = async (req: Request): Promise<Response> => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -37,12 +32,15 @@ const handler = async (req: Request): Promise<Response> => {
   try {
     console.log("Starting lecture reminder process...");
     
-    // Get lectures that are scheduled for tomorrow
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const tomorrowStart = new Date(tomorrow.getFullYear(), tomorrow.getMonth(), tomorrow.getDate());
-    const tomorrowEnd = new Date(tomorrowStart);
-    tomorrowEnd.setDate(tomorrowEnd.getDate() + 1);
+    // "Tomorrow" depends on each student's timezone, so fetch every lecture
+    // that is tomorrow somewhere and narrow it down per student below
+    const now = new Date();
+    const windowEnd = new Date(now.getTime() + 50 * 60 * 60 * 1000);
+
+    const { data: settings } = await supabase
+      .from('institution_settings')
+      .select('timezone')
+      .maybeSingle();
 
     const { data: lectures, error: lecturesError } = await supabase
       .from('lectures')
@@ -50,8 +48,8 @@ const handler = async (req: Request): Promise<Response> => {
         *,
         courses!inner(*)
       `)
-      .gte('scheduled_at', tomorrowStart.toISOString())
-      .lt('scheduled_at', tomorrowEnd.toISOString())
+      .gte('scheduled_at', now.toISOString())
+      .lt('scheduled_at', windowEnd.toISOString())
       .eq('is_cancelled', false);
 
     if (lecturesError) {
@@ -59,7 +57,7 @@ const handler = async (req: Request): Promise<Response> => {
       throw lecturesError;
     }
 
-    console.log(`Found ${lectures?.length || 0} lectures for tomorrow`);
+    console.log(`Found ${lectures?.length || 0} lectures in the next two days`);
 
     if (!lectures || lectures.length === 0) {
       return new Response(
@@ -69,7 +67,7 @@ const handler = async (req: Request): Promise<Response> => {
     }
 
     let totalReminders = 0;
-    let successfulReminders = 0;
+    let queuedReminders = 0;
 
     for (const lecture of lectures) {
       try {
@@ -91,6 +89,14 @@ const handler = async (req: Request): Promise<Response> => {
         console.log(`Found ${enrollments?.length || 0} students for lecture: ${lecture.title}`);
 
         for (const enrollment of enrollments || []) {
+          const timeZone = resolveTimezone(enrollment.profiles.timezone, settings?.timezone);
+          const tomorrow = zonedDayRange(timeZone, 1, now);
+          const scheduledAt = new Date(lecture.scheduled_at);
+
+          if (scheduledAt < tomorrow.start || scheduledAt >= tomorrow.end) {
+            continue;
+          }
+
           totalReminders++;
           
           // Get student's email preferences
@@ -103,84 +109,70 @@ const handler = async (req: Request): Promise<Response> => {
           // Use notification_email from preferences or fall back to profile email
           const studentEmail = emailPref?.notification_email || enrollment.profiles.notification_email || enrollment.profiles.email;
           
-          // Skip if lecture reminders are disabled
-          if (emailPref && !emailPref.lecture_reminders) {
+          const channels = await channelsFor(enrollment.profiles.id, 'reminder', lecture.course_id);
+
+          // Skip if the student wants reminders on no channel
+          if (channels.length === 0) {
             console.log(`Skipping reminder for ${studentEmail} - lecture reminders disabled`);
             continue;
           }
 
-          // Format lecture time
-          const lectureTime = new Date(lecture.scheduled_at).toLocaleString();
-
-          // Prepare EmailJS payload
-          const emailPayload: EmailJSPayload = {
-            service_id: emailjsServiceId,
-            template_id: emailjsTemplateId,
-            user_id: emailjsPublicKey,
-            template_params: {
-              to_email: studentEmail,
-              student_name: enrollment.profiles.full_name,
-              lecture_title: lecture.title,
-              course_title: lecture.courses.title,
-              lecture_time: lectureTime,
-              location: lecture.location || "Online",
-              meeting_url: lecture.meeting_url
-            }
-          };
-
-          // Send email via EmailJS API
-          const emailResponse = await fetch("https://api.emailjs.com/api/v1.0/email/send", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify(emailPayload)
-          });
-
-          if (emailResponse.ok) {
-            successfulReminders++;
-            console.log(`Reminder sent successfully to ${studentEmail}`);
-            
-            // Create notification record
-            await supabase.from('notifications').insert({
-              recipient_id: enrollment.profiles.id,
-              lecture_id: lecture.id,
-              subject: `Reminder: ${lecture.title} tomorrow`,
-              message: `Don't forget about your ${lecture.courses.title} lecture tomorrow at ${lectureTime}`,
-              email: studentEmail,
-              status: 'sent',
-              scheduled_for: new Date().toISOString(),
-              sent_at: new Date().toISOString()
-            });
-          } else {
-            const errorText = await emailResponse.text();
-            console.error(`Failed to send reminder to ${studentEmail}:`, errorText);
-            
-            // Create failed notification record
-            await supabase.from('notifications').insert({
+          // The morning digest stands in for the day-before reminder
+          if (emailPref?.digest_replaces_reminders && (await channelsFor(enrollment.profiles.id, 'digest')).length > 0) {
+            console.log(`Skipping reminder for ${studentEmail} - covered by daily digest`);
+            continue;
+          }
+
+          // Only students whose lead times include one day get the day-before reminder
+          const { data: offsets } = await supabase
+            .rpc('reminder_offsets_for', { p_user_id: enrollment.profiles.id });
+
+          if (!(offsets ?? []).includes(DAY_BEFORE_OFFSET)) {
+            console.log(`Skipping reminder for ${studentEmail} - no one day lead time chosen`);
+            continue;
+          }
+
+          // process-notifications delivers the reminder on every channel the student chose. The
+          // idempotency key turns away a copy the lecture trigger or an earlier run already queued.
+          const { data: queued, error: queueError } = await supabase
+            .from('notifications')
+            .upsert({
               recipient_id: enrollment.profiles.id,
               lecture_id: lecture.id,
-              subject: `Reminder: ${lecture.title} tomorrow`,
-              message: `Don't forget about your ${lecture.courses.title} lecture tomorrow at ${lectureTime}`,
               email: studentEmail,
-              status: 'failed',
-              scheduled_for: new Date().toISOString(),
-              error_message: errorText
-            });
+              kind: 'reminder',
+              offset_minutes: DAY_BEFORE_OFFSET,
+              channels,
+              scheduled_for: new Date(scheduledAt.getTime() - DAY_BEFORE_OFFSET * 60 * 1000).toISOString(),
+              status: 'pending'
+            }, { onConflict: 'idempotency_key', ignoreDuplicates: true })
+            .select('id');
+
+          if (queueError) {
+            console.error(`Failed to queue reminder for ${studentEmail}:`, queueError);
+            continue;
+          }
+
+          if (!queued || queued.length === 0) {
+            console.log(`Skipping reminder for ${studentEmail} - already queued`);
+            continue;
           }
+
+          queuedReminders++;
+          console.log(`Reminder queued for ${studentEmail}`);
         }
       } catch (error) {
         console.error(`Error processing lecture ${lecture.title}:`, error);
       }
     }
 
-    console.log(`Sent ${successfulReminders}/${totalReminders} reminders successfully`);
+    console.log(`Queued ${queuedReminders}/${totalReminders} reminders`);
 
     return new Response(
       JSON.stringify({
-        message: `Processed ${totalReminders} reminders, ${successfulReminders} sent successfully`,
+        message: `Processed ${totalReminders} reminders, ${queuedReminders} queued`,
         totalReminders,
-        successfulReminders
+        queuedReminders
       }),
       {
         status: 200,
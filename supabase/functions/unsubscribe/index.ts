@@ -0,0 +1,100 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.56.0';
+import { verifyUnsubscribeToken } from "../_shared/unsubscribe.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+}
+
+/**
+ * Public: the signed token is the only credential, so this runs without a
+ * user JWT (see config.toml).
+ *
+ * - `GET ?token=` describes what the link can turn off
+ * - `POST { token, scope: "kind" | "course" }` turns it off
+ * - `POST ?token=` with `List-Unsubscribe=One-Click` is a mail client's
+ *   one-click unsubscribe, which turns off the kind
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const isJson = req.headers.get("content-type")?.includes("application/json");
+    const body = req.method === "POST" && isJson ? await req.json() : {};
+    const token = body.token ?? url.searchParams.get("token") ?? "";
+
+    const claims = await verifyUnsubscribeToken(token);
+    if (!claims) {
+      return json({ error: "This unsubscribe link is invalid or has expired." }, 400);
+    }
+
+    if (req.method === "GET") {
+      const [{ data: course }, { data: preference }, { data: courseUnsubscribe }] = await Promise.all([
+        claims.courseId
+          ? supabase.from('courses').select('title, course_code').eq('id', claims.courseId).maybeSingle()
+          : Promise.resolve({ data: null }),
+        supabase
+          .from('notification_preferences')
+          .select('enabled')
+          .eq('user_id', claims.userId)
+          .eq('kind', claims.kind)
+          .eq('channel', 'email')
+          .maybeSingle(),
+        claims.courseId
+          ? supabase
+            .from('course_email_unsubscribes')
+            .select('course_id')
+            .eq('user_id', claims.userId)
+            .eq('course_id', claims.courseId)
+            .maybeSingle()
+          : Promise.resolve({ data: null }),
+      ]);
+
+      return json({
+        kind: claims.kind,
+        course,
+        kindUnsubscribed: preference?.enabled === false,
+        courseUnsubscribed: Boolean(courseUnsubscribe),
+      });
+    }
+
+    if (req.method !== "POST") {
+      return json({ error: "Method not allowed" }, 405);
+    }
+
+    const scope = body.scope ?? "kind";
+    if (scope !== "kind" && !(scope === "course" && claims.courseId)) {
+      return json({ error: `Cannot unsubscribe from ${scope} with this link` }, 400);
+    }
+
+    const { error } = await supabase.rpc('apply_email_unsubscribe', {
+      p_user_id: claims.userId,
+      p_kind: claims.kind,
+      p_course_id: scope === "course" ? claims.courseId : null,
+    });
+
+    if (error) throw error;
+
+    console.log(`Unsubscribed ${claims.userId} from ${scope === "course" ? `course ${claims.courseId}` : claims.kind} emails`);
+    return json({ unsubscribed: true, scope });
+  } catch (error) {
+    console.error("Error in unsubscribe function:", error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,19 @@
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Browsers need the public half of the VAPID pair to subscribe. Keeping it in
+// the function secrets means the key pair is configured in one place.
+Deno.serve((req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const publicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+
+  return new Response(
+    JSON.stringify({ publicKey: publicKey || null }),
+    { headers: { "Content-Type": "application/json", ...corsHeaders } },
+  );
+});
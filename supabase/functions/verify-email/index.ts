@@ -0,0 +1,212 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.56.0';
+import { getEmailTransport } from "../_shared/email/index.ts";
+import { suppressedAddresses } from "../_shared/suppression.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const CODE_TTL_MINUTES = 30;
+const RESEND_AFTER_SECONDS = 60;
+const MAX_ATTEMPTS = 5;
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+}
+
+// Salted with the user id so equal codes don't produce equal hashes
+async function hashCode(userId: string, code: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${userId}:${code}`));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function generateCode(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return String(value % 1_000_000).padStart(6, "0");
+}
+
+/**
+ * Confirms a new notification email address:
+ *
+ * - `{ action: "send", email }` emails a one-time code to the address and
+ *   holds it as the pending address
+ * - `{ action: "confirm", code }` checks the code and makes the pending
+ *   address the one notifications go to
+ * - `{ action: "cancel" }` drops the pending address
+ * - `{ action: "test" }` sends a test email to the address in use now
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return json({ error: "Not signed in" }, 401);
+    }
+
+    const { action, email, code } = await req.json();
+
+    const [{ data: profile }, { data: preferences }] = await Promise.all([
+      supabase.from('profiles').select('email, notification_email, full_name').eq('id', user.id).single(),
+      supabase.from('email_preferences').select('id, notification_email').eq('user_id', user.id).maybeSingle(),
+    ]);
+
+    if (!profile) {
+      return json({ error: "Profile not found" }, 404);
+    }
+
+    const currentAddress = preferences?.notification_email || profile.notification_email || profile.email;
+
+    if (action === "send") {
+      const address = typeof email === "string" ? email.trim().toLowerCase() : "";
+      if (!EMAIL_PATTERN.test(address)) {
+        return json({ error: "Enter a valid email address" }, 400);
+      }
+
+      if (address === currentAddress.toLowerCase()) {
+        return json({ error: "Notifications already go to this address" }, 400);
+      }
+
+      if ((await suppressedAddresses(supabase, [address])).size > 0) {
+        return json({ error: "Email to this address has bounced before. Use a different address." }, 400);
+      }
+
+      const { data: pending } = await supabase
+        .from('email_verifications')
+        .select('created_at')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (pending?.created_at && Date.now() - new Date(pending.created_at).getTime() < RESEND_AFTER_SECONDS * 1000) {
+        return json({ error: "Please wait a minute before requesting another code" }, 429);
+      }
+
+      const verificationCode = generateCode();
+      const { error: saveError } = await supabase
+        .from('email_verifications')
+        .upsert({
+          user_id: user.id,
+          email: address,
+          code_hash: await hashCode(user.id, verificationCode),
+          attempts: 0,
+          expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+          created_at: new Date().toISOString(),
+        });
+
+      if (saveError) throw saveError;
+
+      // Notifications keep going to the current address until the code is confirmed
+      const { error: preferencesError } = await supabase
+        .from('email_preferences')
+        .upsert({
+          user_id: user.id,
+          notification_email: currentAddress,
+          pending_notification_email: address,
+        }, { onConflict: 'user_id' });
+
+      if (preferencesError) throw preferencesError;
+
+      await getEmailTransport().send({
+        to: address,
+        subject: "Confirm your LectureHub notification email",
+        text: `Your LectureHub verification code is ${verificationCode}. ` +
+          `Enter it in your notification preferences within ${CODE_TTL_MINUTES} minutes to start receiving notifications here.\n\n` +
+          `If you didn't ask for this, you can ignore this email.`,
+        templateParams: {
+          student_name: profile.full_name || "Student",
+          verification_code: verificationCode,
+        },
+      });
+
+      return json({ sent: true, pending_email: address });
+    }
+
+    if (action === "confirm") {
+      const { data: pending } = await supabase
+        .from('email_verifications')
+        .select('email, code_hash, attempts, expires_at')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (!pending || new Date(pending.expires_at).getTime() < Date.now()) {
+        return json({ error: "The code has expired. Request a new one." }, 400);
+      }
+
+      if (pending.attempts >= MAX_ATTEMPTS) {
+        return json({ error: "Too many wrong codes. Request a new one." }, 429);
+      }
+
+      if (typeof code !== "string" || (await hashCode(user.id, code.trim())) !== pending.code_hash) {
+        await supabase
+          .from('email_verifications')
+          .update({ attempts: pending.attempts + 1 })
+          .eq('user_id', user.id);
+        return json({ error: "That code is not correct" }, 400);
+      }
+
+      const { error: preferencesError } = await supabase
+        .from('email_preferences')
+        .update({
+          notification_email: pending.email,
+          pending_notification_email: null,
+          notification_email_verified_at: new Date().toISOString(),
+        })
+        .eq('user_id', user.id);
+
+      if (preferencesError) throw preferencesError;
+
+      await supabase.from('email_verifications').delete().eq('user_id', user.id);
+
+      return json({ verified: true, email: pending.email });
+    }
+
+    if (action === "cancel") {
+      await supabase.from('email_verifications').delete().eq('user_id', user.id);
+      if (preferences) {
+        await supabase
+          .from('email_preferences')
+          .update({ pending_notification_email: null })
+          .eq('user_id', user.id);
+      }
+
+      return json({ cancelled: true });
+    }
+
+    if (action === "test") {
+      if ((await suppressedAddresses(supabase, [currentAddress])).size > 0) {
+        return json({ error: "Email to this address has bounced. Change your notification email first." }, 400);
+      }
+
+      const result = await getEmailTransport().send({
+        to: currentAddress,
+        subject: "LectureHub test email",
+        text: `Hi ${profile.full_name || "there"},\n\n` +
+          `This is a test email from LectureHub. Lecture notifications will arrive at this address.`,
+        templateParams: {
+          student_name: profile.full_name || "Student",
+        },
+      });
+
+      console.log(`Test email sent to ${currentAddress}`, result.messageId ?? "");
+      return json({ sent: true, email: currentAddress });
+    }
+
+    return json({ error: `Unknown action: ${action}` }, 400);
+  } catch (error) {
+    console.error("Error in verify-email function:", error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,138 @@
+import { createClient } from 'npm:@supabase/supabase-js@2.56.0';
+import { getSmsProvider } from "../_shared/sms/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+const PHONE_PATTERN = /^\+[1-9][0-9]{7,14}$/;
+const CODE_TTL_MINUTES = 10;
+const RESEND_AFTER_SECONDS = 60;
+const MAX_ATTEMPTS = 5;
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+}
+
+// Salted with the user id so equal codes don't produce equal hashes
+async function hashCode(userId: string, code: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${userId}:${code}`));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function generateCode(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return String(value % 1_000_000).padStart(6, "0");
+}
+
+/**
+ * Two steps: `{ action: "send", phone_number }` texts a one-time code to the
+ * number, and `{ action: "confirm", code }` checks it and saves the number
+ * as verified on the caller's profile.
+ */
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return json({ error: "Not signed in" }, 401);
+    }
+
+    const { action, phone_number: phoneNumber, code } = await req.json();
+
+    if (action === "send") {
+      if (typeof phoneNumber !== "string" || !PHONE_PATTERN.test(phoneNumber)) {
+        return json({ error: "Enter the number in international format, e.g. +2348012345678" }, 400);
+      }
+
+      const provider = getSmsProvider();
+      if (!provider) {
+        return json({ error: "SMS is not configured on the server" }, 503);
+      }
+
+      const { data: pending } = await supabase
+        .from('phone_verifications')
+        .select('created_at')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (pending?.created_at && Date.now() - new Date(pending.created_at).getTime() < RESEND_AFTER_SECONDS * 1000) {
+        return json({ error: "Please wait a minute before requesting another code" }, 429);
+      }
+
+      const verificationCode = generateCode();
+      const { error: saveError } = await supabase
+        .from('phone_verifications')
+        .upsert({
+          user_id: user.id,
+          phone_number: phoneNumber,
+          code_hash: await hashCode(user.id, verificationCode),
+          attempts: 0,
+          expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+          created_at: new Date().toISOString(),
+        });
+
+      if (saveError) throw saveError;
+
+      await provider.send({
+        to: phoneNumber,
+        text: `Your LectureHub verification code is ${verificationCode}. It expires in ${CODE_TTL_MINUTES} minutes.`,
+      });
+
+      return json({ sent: true });
+    }
+
+    if (action === "confirm") {
+      const { data: pending } = await supabase
+        .from('phone_verifications')
+        .select('phone_number, code_hash, attempts, expires_at')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (!pending || new Date(pending.expires_at).getTime() < Date.now()) {
+        return json({ error: "The code has expired. Request a new one." }, 400);
+      }
+
+      if (pending.attempts >= MAX_ATTEMPTS) {
+        return json({ error: "Too many wrong codes. Request a new one." }, 429);
+      }
+
+      if (typeof code !== "string" || (await hashCode(user.id, code.trim())) !== pending.code_hash) {
+        await supabase
+          .from('phone_verifications')
+          .update({ attempts: pending.attempts + 1 })
+          .eq('user_id', user.id);
+        return json({ error: "That code is not correct" }, 400);
+      }
+
+      const { error: profileError } = await supabase
+        .from('profiles')
+        .update({ phone_number: pending.phone_number, phone_verified_at: new Date().toISOString() })
+        .eq('id', user.id);
+
+      if (profileError) throw profileError;
+
+      await supabase.from('phone_verifications').delete().eq('user_id', user.id);
+
+      return json({ verified: true, phone_number: pending.phone_number });
+    }
+
+    return json({ error: `Unknown action: ${action}` }, 400);
+  } catch (error) {
+    console.error("Error in verify-phone function:", error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
@@ -0,0 +1,47 @@
+/*
+  # Retry failed notifications with exponential backoff
+
+  1. Changes
+    - `notification_status` gains a terminal `dead` state. The type is created
+      (and `notifications.status` converted to it) on databases built only from
+      these migrations, where the column is still a checked text column.
+    - `notifications.attempts` - delivery attempts made so far
+    - `notifications.max_attempts` - attempts allowed before the row is dead
+    - `notifications.next_attempt_at` - earliest time a failed row is retried
+    - `notifications.last_attempt_at` - time of the most recent attempt
+    - `notifications.error_message` - last provider error
+
+  2. Semantics
+    - `failed` now means "failed, will be retried at next_attempt_at"
+    - `dead` means the attempts are exhausted or the error was permanent
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notification_status') THEN
+    CREATE TYPE notification_status AS ENUM ('pending', 'sent', 'failed');
+  END IF;
+
+  IF (
+    SELECT data_type FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'notifications' AND column_name = 'status'
+  ) = 'text' THEN
+    ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_status_check;
+    ALTER TABLE notifications ALTER COLUMN status DROP DEFAULT;
+    ALTER TABLE notifications ALTER COLUMN status TYPE notification_status USING status::notification_status;
+    ALTER TABLE notifications ALTER COLUMN status SET DEFAULT 'pending';
+  END IF;
+END $$;
+
+ALTER TYPE notification_status ADD VALUE IF NOT EXISTS 'dead';
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS error_message text,
+  ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_attempts integer NOT NULL DEFAULT 5,
+  ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz,
+  ADD COLUMN IF NOT EXISTS last_attempt_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_next_attempt
+  ON notifications(next_attempt_at)
+  WHERE status = 'failed';
@@ -0,0 +1,14 @@
+/*
+  # Retire notifications that failed before retries existed
+
+  Rows marked `failed` before the retry migration were never meant to be
+  resent; without this they would all be retried at once, long after their
+  lectures. Kept in its own migration because the `dead` enum value cannot be
+  used in the transaction that adds it.
+*/
+
+UPDATE notifications
+SET status = 'dead',
+    attempts = GREATEST(attempts, 1)
+WHERE status = 'failed'
+  AND next_attempt_at IS NULL;
@@ -0,0 +1,9 @@
+/*
+  # Add the `processing` notification status
+
+  Claimed by a worker and being sent. Kept in its own migration because
+  `claim_due_notifications` indexes on the value, and a new enum value cannot
+  be used in the transaction that adds it.
+*/
+
+ALTER TYPE notification_status ADD VALUE IF NOT EXISTS 'processing';
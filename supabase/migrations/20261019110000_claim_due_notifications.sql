@@ -0,0 +1,73 @@
+/*
+  # Atomic claiming of due notifications
+
+  1. Changes
+    - Rows being sent are `processing` (added in the previous migration)
+    - `notifications.claimed_by` - worker that holds the claim
+    - `notifications.locked_until` - lease expiry; an expired claim is picked
+      up again by the next worker
+
+  2. New Functions
+    - `claim_due_notifications(p_worker, p_limit, p_lease_seconds)` - locks up to
+      `p_limit` due rows with FOR UPDATE SKIP LOCKED, marks them `processing`
+      and counts the attempt. Concurrent callers never receive the same row.
+
+  3. Security
+    - Only the service role may claim notifications
+*/
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS claimed_by text,
+  ADD COLUMN IF NOT EXISTS locked_until timestamptz;
+
+CREATE OR REPLACE FUNCTION claim_due_notifications(
+  p_worker text,
+  p_limit integer DEFAULT 50,
+  p_lease_seconds integer DEFAULT 300
+)
+RETURNS SETOF notifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- A worker that died mid-send on its final attempt leaves nothing to retry
+  UPDATE notifications
+  SET status = 'dead',
+      locked_until = NULL,
+      error_message = COALESCE(error_message, 'Claim expired before delivery completed')
+  WHERE status = 'processing'
+    AND locked_until < NOW()
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  WITH due AS (
+    SELECT id
+    FROM notifications
+    WHERE scheduled_for <= NOW()
+      AND (
+        (status IN ('pending', 'failed') AND COALESCE(next_attempt_at, scheduled_for) <= NOW())
+        OR (status = 'processing' AND locked_until < NOW())
+      )
+    ORDER BY scheduled_for
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE notifications n
+  SET status = 'processing',
+      claimed_by = p_worker,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds),
+      attempts = n.attempts + 1,
+      last_attempt_at = NOW()
+  FROM due
+  WHERE n.id = due.id
+  RETURNING n.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_due_notifications(text, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_due_notifications(text, integer, integer) TO service_role;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_locked_until
+  ON notifications(locked_until)
+  WHERE status = 'processing';
@@ -0,0 +1,116 @@
+/*
+  # Server-side notification scheduler
+
+  Notifications used to go out only while someone had the app open, because
+  the browser drove `process-notifications`. pg_cron now calls it every minute.
+
+  1. New Tables
+    - `scheduler_runs` - one heartbeat row per run of a scheduled job, with what
+      it processed and any error
+
+  2. Changes
+    - `send_due_notifications()` tags its request as a cron trigger and reads
+      the project URL and service role key from Vault, as the secrets
+      `project_url` and `service_role_key`. Without them, or if the request
+      can't be made, it records a failed run instead of sending nothing
+      silently:
+
+          SELECT vault.create_secret('https://<ref>.supabase.co', 'project_url');
+          SELECT vault.create_secret('<service role key>', 'service_role_key');
+
+    - pg_cron jobs:
+      - `process-notifications` every minute
+      - `prune-scheduler-runs` nightly, keeping 14 days of heartbeats
+
+  3. Security
+    - RLS on `scheduler_runs`; admins can read, only the service role writes
+    - Clients can no longer call `send_due_notifications()` or
+      `process_pending_notifications()`; only cron and the service role can
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS scheduler_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job text NOT NULL,
+  trigger text NOT NULL DEFAULT 'cron',
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  processed integer NOT NULL DEFAULT 0,
+  succeeded integer NOT NULL DEFAULT 0,
+  failed integer NOT NULL DEFAULT 0,
+  error text
+);
+
+ALTER TABLE scheduler_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view scheduler runs"
+  ON scheduler_runs FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_scheduler_runs_job_started ON scheduler_runs(job, started_at DESC);
+
+-- Function to process and send due notifications
+CREATE OR REPLACE FUNCTION send_due_notifications()
+RETURNS void AS $$
+DECLARE
+  project_url TEXT;
+  service_role_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO project_url
+  FROM vault.decrypted_secrets
+  WHERE name = 'project_url';
+
+  SELECT decrypted_secret INTO service_role_key
+  FROM vault.decrypted_secrets
+  WHERE name = 'service_role_key';
+
+  -- Raising would roll back the failed run with it, so record it and warn instead
+  IF project_url IS NULL OR service_role_key IS NULL THEN
+    INSERT INTO scheduler_runs (job, trigger, status, finished_at, error)
+    VALUES (
+      'process-notifications',
+      'cron',
+      'failed',
+      NOW(),
+      'Vault secrets project_url and service_role_key must both be set'
+    );
+    RAISE WARNING 'send_due_notifications: Vault secrets project_url and service_role_key must both be set';
+    RETURN;
+  END IF;
+
+  -- Call the edge function to process notifications
+  BEGIN
+    PERFORM net.http_post(
+      url := rtrim(project_url, '/') || '/functions/v1/process-notifications',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || service_role_key
+      ),
+      body := '{"trigger": "cron"}'::jsonb
+    );
+  EXCEPTION WHEN OTHERS THEN
+    INSERT INTO scheduler_runs (job, trigger, status, finished_at, error)
+    VALUES ('process-notifications', 'cron', 'failed', NOW(), 'Could not call process-notifications: ' || SQLERRM);
+    RAISE WARNING 'send_due_notifications: %', SQLERRM;
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION send_due_notifications() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION process_pending_notifications() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'process-notifications',
+  '* * * * *',
+  'SELECT process_pending_notifications()'
+);
+
+SELECT cron.schedule(
+  'prune-scheduler-runs',
+  '0 3 * * *',
+  $$DELETE FROM scheduler_runs WHERE started_at < NOW() - INTERVAL '14 days'$$
+);
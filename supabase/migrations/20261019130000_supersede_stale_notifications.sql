@@ -0,0 +1,174 @@
+/*
+  # Supersede stale notifications when a lecture moves or is cancelled
+
+  Rescheduling a lecture queued reminders for the new time but left the old
+  ones pending, so students were reminded of both times.
+
+  1. Changes
+    - `notification_status` gains `superseded` (lecture rescheduled) and
+      `cancelled` (lecture cancelled)
+    - `notifications.status_reason` - why a row left the queue without sending
+
+  2. Updated Functions
+    - `schedule_lecture_notifications()` now, on update:
+      - marks pending and failed rows for the lecture `superseded` when
+        `scheduled_at` changes, before queueing the new reminders
+      - marks them `cancelled` when `is_cancelled` becomes true, and queues
+        nothing
+      - queues reminders again when a cancelled lecture is reinstated
+    - Rows already claimed (`processing`) are withdrawn too and lose their
+      claim, so a send that fails is not retried with the old details
+
+  3. Triggers
+    - `lecture_notification_trigger` also fires on updates of `is_cancelled`
+*/
+
+ALTER TYPE notification_status ADD VALUE IF NOT EXISTS 'superseded';
+ALTER TYPE notification_status ADD VALUE IF NOT EXISTS 'cancelled';
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS status_reason text;
+
+CREATE OR REPLACE FUNCTION schedule_lecture_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  enrollment_record RECORD;
+  student_email TEXT;
+  notification_time TIMESTAMPTZ;
+  reminder_time TIMESTAMPTZ;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- Cancelled: nothing still queued for this lecture should go out
+    IF NEW.is_cancelled IS TRUE AND OLD.is_cancelled IS NOT TRUE THEN
+      -- Dropping the claim on rows being sent stops the worker marking them sent or retrying them
+      UPDATE notifications
+      SET status = 'cancelled',
+          status_reason = 'Lecture cancelled',
+          claimed_by = NULL,
+          locked_until = NULL
+      WHERE lecture_id = NEW.id
+        AND status IN ('pending', 'failed', 'processing');
+
+      RETURN NEW;
+    END IF;
+
+    -- Rescheduled: queued rows describe the old time
+    IF OLD.scheduled_at IS DISTINCT FROM NEW.scheduled_at THEN
+      UPDATE notifications
+      SET status = 'superseded',
+          status_reason = 'Lecture rescheduled from ' ||
+            to_char(OLD.scheduled_at AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"') || ' to ' ||
+            to_char(NEW.scheduled_at AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"'),
+          claimed_by = NULL,
+          locked_until = NULL
+      WHERE lecture_id = NEW.id
+        AND status IN ('pending', 'failed', 'processing');
+    END IF;
+  END IF;
+
+  -- Only queue for a new lecture, a changed time or a reinstated lecture
+  IF NEW.is_cancelled IS NOT TRUE AND (
+    TG_OP = 'INSERT'
+    OR OLD.scheduled_at IS DISTINCT FROM NEW.scheduled_at
+    OR OLD.is_cancelled IS TRUE
+  ) THEN
+    
+    -- Calculate notification times
+    notification_time := NEW.scheduled_at - INTERVAL '24 hours'; -- 24 hours before
+    reminder_time := NEW.scheduled_at - INTERVAL '1 minute'; -- 1 minute before
+    
+    -- Get all enrolled students for this course
+    FOR enrollment_record IN 
+      SELECT 
+        e.student_id,
+        p.full_name,
+        p.email,
+        p.notification_email,
+        ep.notification_email as pref_email,
+        ep.lecture_reminders
+      FROM enrollments e
+      JOIN profiles p ON e.student_id = p.id
+      LEFT JOIN email_preferences ep ON e.student_id = ep.user_id
+      WHERE e.course_id = NEW.course_id 
+        AND e.is_active = true
+    LOOP
+      -- Determine which email to use
+      student_email := COALESCE(
+        enrollment_record.pref_email,
+        enrollment_record.notification_email,
+        enrollment_record.email
+      );
+      
+      -- Only create notifications if student has lecture reminders enabled (default true)
+      IF COALESCE(enrollment_record.lecture_reminders, true) THEN
+        
+        -- Schedule 24-hour advance notification
+        INSERT INTO notifications (
+          lecture_id,
+          recipient_id,
+          email,
+          subject,
+          message,
+          scheduled_for,
+          status
+        ) VALUES (
+          NEW.id,
+          enrollment_record.student_id,
+          student_email,
+          'New Lecture Scheduled: ' || NEW.title,
+          'A new lecture "' || NEW.title || '" has been scheduled for ' || 
+          TO_CHAR(NEW.scheduled_at, 'Day, DD Mon YYYY at HH24:MI') || 
+          CASE 
+            WHEN NEW.location IS NOT NULL THEN ' at ' || NEW.location
+            ELSE ''
+          END ||
+          CASE 
+            WHEN NEW.meeting_url IS NOT NULL THEN '. Meeting URL: ' || NEW.meeting_url
+            ELSE ''
+          END,
+          notification_time,
+          'pending'
+        );
+        
+        -- Schedule 1-minute reminder (only if lecture is more than 1 minute away)
+        IF NEW.scheduled_at > NOW() + INTERVAL '1 minute' THEN
+          INSERT INTO notifications (
+            lecture_id,
+            recipient_id,
+            email,
+            subject,
+            message,
+            scheduled_for,
+            status
+          ) VALUES (
+            NEW.id,
+            enrollment_record.student_id,
+            student_email,
+            'Lecture Starting Soon: ' || NEW.title,
+            'Your lecture "' || NEW.title || '" is starting in 1 minute!' ||
+            CASE 
+              WHEN NEW.location IS NOT NULL THEN ' Location: ' || NEW.location
+              ELSE ''
+            END ||
+            CASE 
+              WHEN NEW.meeting_url IS NOT NULL THEN ' Meeting URL: ' || NEW.meeting_url
+              ELSE ''
+            END,
+            reminder_time,
+            'pending'
+          );
+        END IF;
+        
+      END IF;
+    END LOOP;
+  END IF;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS lecture_notification_trigger ON lectures;
+CREATE TRIGGER lecture_notification_trigger
+  AFTER INSERT OR UPDATE OF scheduled_at, is_cancelled ON lectures
+  FOR EACH ROW
+  EXECUTE FUNCTION schedule_lecture_notifications();
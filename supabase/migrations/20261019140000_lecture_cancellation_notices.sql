@@ -0,0 +1,348 @@
+/*
+  # Lecture cancellation notices
+
+  Cancelling a lecture used to send nothing, so students still turned up.
+
+  1. Changes
+    - `lectures.cancellation_reason` - optional reason entered by the lecturer
+    - `lectures.cancelled_at` - when the lecture was cancelled
+    - `notifications.kind` - what the notification is about: `scheduled`,
+      `rescheduled`, `reminder`, `cancelled` or `manual`. Existing rows are
+      classified from their subject lines; the day-before reminder shared the
+      "New Lecture Scheduled" subject, so only rows due the moment they were
+      queued count as `scheduled`.
+    - `notifications.payload` - extra details for the message, such as the
+      cancellation reason or the previous lecture time
+
+  2. New Functions
+    - `queue_lecture_cancellation_notices(lecture)` - queues a `cancelled`
+      notification for every active enrollment, honouring `email_preferences`
+      the same way the reminder triggers do
+
+  3. Updated Functions
+    - `schedule_lecture_notifications()` queues cancellation notices when
+      `is_cancelled` becomes true, and tags its reminders with their kind
+    - `send_lecture_scheduled_notifications()` tags its rows `scheduled` or
+      `rescheduled`, and skips cancelled lectures
+
+  4. Security
+    - Clients cannot call `queue_lecture_cancellation_notices` directly; only
+      the lecture trigger does
+*/
+
+ALTER TABLE lectures
+  ADD COLUMN IF NOT EXISTS cancellation_reason text,
+  ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'reminder'
+    CHECK (kind IN ('scheduled', 'rescheduled', 'reminder', 'cancelled', 'manual')),
+  ADD COLUMN IF NOT EXISTS payload jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+UPDATE notifications SET kind = 'scheduled'
+WHERE subject LIKE 'New Lecture Scheduled:%'
+  AND scheduled_for = created_at;
+UPDATE notifications SET kind = 'manual' WHERE subject LIKE 'Reminder:%' AND subject NOT LIKE '% tomorrow';
+
+CREATE INDEX IF NOT EXISTS idx_notifications_lecture_kind ON notifications(lecture_id, kind);
+
+-- Function to queue cancellation notices for a lecture's students
+CREATE OR REPLACE FUNCTION queue_lecture_cancellation_notices(lecture lectures)
+RETURNS void AS $$
+DECLARE
+  enrollment_record RECORD;
+  student_email TEXT;
+BEGIN
+  FOR enrollment_record IN
+    SELECT 
+      e.student_id,
+      p.email,
+      p.notification_email,
+      c.title as course_title,
+      c.course_code,
+      ep.notification_email as pref_email,
+      ep.lecture_reminders
+    FROM enrollments e
+    JOIN profiles p ON e.student_id = p.id
+    JOIN courses c ON e.course_id = c.id
+    LEFT JOIN email_preferences ep ON ep.user_id = p.id
+    WHERE e.course_id = lecture.course_id 
+      AND e.is_active = true
+  LOOP
+    -- Skip if lecture reminders are disabled
+    IF enrollment_record.lecture_reminders IS FALSE THEN
+      CONTINUE;
+    END IF;
+    
+    -- Determine which email to use
+    student_email := COALESCE(
+      enrollment_record.pref_email,
+      enrollment_record.notification_email,
+      enrollment_record.email
+    );
+    
+    INSERT INTO notifications (
+      recipient_id,
+      lecture_id,
+      subject,
+      message,
+      email,
+      status,
+      scheduled_for,
+      kind,
+      payload
+    ) VALUES (
+      enrollment_record.student_id,
+      lecture.id,
+      'Lecture Cancelled: ' || lecture.title,
+      'The lecture "' || lecture.title || '" for ' || enrollment_record.course_title || 
+      ' (' || enrollment_record.course_code || ') on ' ||
+      TO_CHAR(lecture.scheduled_at, 'Day, DD Mon YYYY at HH24:MI') || ' has been cancelled.' ||
+      CASE 
+        WHEN NULLIF(TRIM(lecture.cancellation_reason), '') IS NOT NULL THEN ' Reason: ' || lecture.cancellation_reason
+        ELSE ''
+      END,
+      student_email,
+      'pending',
+      NOW(),
+      'cancelled',
+      jsonb_build_object('cancellation_reason', lecture.cancellation_reason)
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_lecture_cancellation_notices(lectures) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION schedule_lecture_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  enrollment_record RECORD;
+  student_email TEXT;
+  notification_time TIMESTAMPTZ;
+  reminder_time TIMESTAMPTZ;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- Cancelled: nothing still queued for this lecture should go out
+    IF NEW.is_cancelled IS TRUE AND OLD.is_cancelled IS NOT TRUE THEN
+      -- Dropping the claim on rows being sent stops the worker marking them sent or retrying them
+      UPDATE notifications
+      SET status = 'cancelled',
+          status_reason = 'Lecture cancelled',
+          claimed_by = NULL,
+          locked_until = NULL
+      WHERE lecture_id = NEW.id
+        AND status IN ('pending', 'failed', 'processing');
+
+      -- Tell students, unless the lecture has already happened
+      IF NEW.scheduled_at > NOW() THEN
+        PERFORM queue_lecture_cancellation_notices(NEW);
+      END IF;
+
+      RETURN NEW;
+    END IF;
+
+    -- Rescheduled: queued rows describe the old time
+    IF OLD.scheduled_at IS DISTINCT FROM NEW.scheduled_at THEN
+      UPDATE notifications
+      SET status = 'superseded',
+          status_reason = 'Lecture rescheduled from ' ||
+            to_char(OLD.scheduled_at AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"') || ' to ' ||
+            to_char(NEW.scheduled_at AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"'),
+          claimed_by = NULL,
+          locked_until = NULL
+      WHERE lecture_id = NEW.id
+        AND status IN ('pending', 'failed', 'processing');
+    END IF;
+  END IF;
+
+  -- Only queue for a new lecture, a changed time or a reinstated lecture
+  IF NEW.is_cancelled IS NOT TRUE AND (
+    TG_OP = 'INSERT'
+    OR OLD.scheduled_at IS DISTINCT FROM NEW.scheduled_at
+    OR OLD.is_cancelled IS TRUE
+  ) THEN
+    
+    -- Calculate notification times
+    notification_time := NEW.scheduled_at - INTERVAL '24 hours'; -- 24 hours before
+    reminder_time := NEW.scheduled_at - INTERVAL '1 minute'; -- 1 minute before
+    
+    -- Get all enrolled students for this course
+    FOR enrollment_record IN 
+      SELECT 
+        e.student_id,
+        p.full_name,
+        p.email,
+        p.notification_email,
+        ep.notification_email as pref_email,
+        ep.lecture_reminders
+      FROM enrollments e
+      JOIN profiles p ON e.student_id = p.id
+      LEFT JOIN email_preferences ep ON e.student_id = ep.user_id
+      WHERE e.course_id = NEW.course_id 
+        AND e.is_active = true
+    LOOP
+      -- Determine which email to use
+      student_email := COALESCE(
+        enrollment_record.pref_email,
+        enrollment_record.notification_email,
+        enrollment_record.email
+      );
+      
+      -- Only create notifications if student has lecture reminders enabled (default true)
+      IF COALESCE(enrollment_record.lecture_reminders, true) THEN
+        
+        -- Schedule 24-hour advance reminder
+        INSERT INTO notifications (
+          lecture_id,
+          recipient_id,
+          email,
+          subject,
+          message,
+          scheduled_for,
+          status,
+          kind
+        ) VALUES (
+          NEW.id,
+          enrollment_record.student_id,
+          student_email,
+          'Lecture Tomorrow: ' || NEW.title,
+          'Your lecture "' || NEW.title || '" is tomorrow, ' ||
+          TO_CHAR(NEW.scheduled_at, 'Day, DD Mon YYYY at HH24:MI') || 
+          CASE 
+            WHEN NEW.location IS NOT NULL THEN ' at ' || NEW.location
+            ELSE ''
+          END ||
+          CASE 
+            WHEN NEW.meeting_url IS NOT NULL THEN '. Meeting URL: ' || NEW.meeting_url
+            ELSE ''
+          END,
+          notification_time,
+          'pending',
+          'reminder'
+        );
+        
+        -- Schedule 1-minute reminder (only if lecture is more than 1 minute away)
+        IF NEW.scheduled_at > NOW() + INTERVAL '1 minute' THEN
+          INSERT INTO notifications (
+            lecture_id,
+            recipient_id,
+            email,
+            subject,
+            message,
+            scheduled_for,
+            status,
+            kind
+          ) VALUES (
+            NEW.id,
+            enrollment_record.student_id,
+            student_email,
+            'Lecture Starting Soon: ' || NEW.title,
+            'Your lecture "' || NEW.title || '" is starting in 1 minute!' ||
+            CASE 
+              WHEN NEW.location IS NOT NULL THEN ' Location: ' || NEW.location
+              ELSE ''
+            END ||
+            CASE 
+              WHEN NEW.meeting_url IS NOT NULL THEN ' Meeting URL: ' || NEW.meeting_url
+              ELSE ''
+            END,
+            reminder_time,
+            'pending',
+            'reminder'
+          );
+        END IF;
+        
+      END IF;
+    END LOOP;
+  END IF;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to send notifications when a lecture is scheduled
+CREATE OR REPLACE FUNCTION send_lecture_scheduled_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  enrollment_record RECORD;
+  student_email TEXT;
+  lecture_time TEXT;
+BEGIN
+  -- A cancelled lecture gets a cancellation notice instead
+  IF NEW.is_cancelled IS TRUE THEN
+    RETURN NEW;
+  END IF;
+
+  -- Format lecture time
+  lecture_time := to_char(NEW.scheduled_at, 'Day, Month DD, YYYY at HH12:MI AM');
+  
+  -- Get all enrolled students for this course
+  FOR enrollment_record IN
+    SELECT 
+      e.student_id,
+      p.full_name,
+      p.email,
+      p.notification_email,
+      c.title as course_title,
+      c.course_code,
+      ep.notification_email as pref_email,
+      ep.lecture_reminders
+    FROM enrollments e
+    JOIN profiles p ON e.student_id = p.id
+    JOIN courses c ON e.course_id = c.id
+    LEFT JOIN email_preferences ep ON ep.user_id = p.id
+    WHERE e.course_id = NEW.course_id 
+    AND e.is_active = true
+  LOOP
+    -- Skip if lecture reminders are disabled
+    IF enrollment_record.lecture_reminders IS FALSE THEN
+      CONTINUE;
+    END IF;
+    
+    -- Determine which email to use
+    student_email := COALESCE(
+      enrollment_record.pref_email,
+      enrollment_record.notification_email,
+      enrollment_record.email
+    );
+    
+    -- Insert notification record
+    INSERT INTO notifications (
+      recipient_id,
+      lecture_id,
+      subject,
+      message,
+      email,
+      status,
+      scheduled_for,
+      kind,
+      payload
+    ) VALUES (
+      enrollment_record.student_id,
+      NEW.id,
+      'New Lecture Scheduled: ' || NEW.title,
+      'A new lecture "' || NEW.title || '" has been scheduled for ' || enrollment_record.course_title || 
+      ' (' || enrollment_record.course_code || ') on ' || lecture_time || 
+      CASE 
+        WHEN NEW.location IS NOT NULL THEN '. Location: ' || NEW.location
+        ELSE ''
+      END ||
+      CASE 
+        WHEN NEW.meeting_url IS NOT NULL THEN '. Meeting URL: ' || NEW.meeting_url
+        ELSE ''
+      END,
+      student_email,
+      'pending',
+      NOW(),
+      CASE WHEN TG_OP = 'INSERT' THEN 'scheduled' ELSE 'rescheduled' END,
+      CASE
+        WHEN TG_OP = 'UPDATE' THEN jsonb_build_object('previous_scheduled_at', OLD.scheduled_at)
+        ELSE '{}'::jsonb
+      END
+    );
+  END LOOP;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,303 @@
+/*
+  # Per-user reminder lead times
+
+  Reminders were hardcoded at 24 hours and 1 minute before each lecture.
+  Students now choose their own lead times, falling back to institution
+  defaults set by an admin.
+
+  1. New Tables
+    - `institution_settings` - single-row table of institution-wide defaults
+      - `default_reminder_offsets` - lead times in minutes before a lecture
+
+  2. Changes
+    - `email_preferences.reminder_offsets` - the student's lead times in
+      minutes; NULL means "use the institution default"
+    - `notifications.offset_minutes` - the lead time a reminder was queued for
+
+  3. New Functions
+    - `reminder_offsets_for(user_id)` - effective lead times for a user
+    - `format_reminder_offset(minutes)` - "1 day", "2 hours", "15 minutes"
+    - `queue_lecture_reminders(lecture, student_id)` - one reminder per lead
+      time that is still in the future
+    - `requeue_student_reminders(student_id, reason)` - supersedes a student's
+      queued reminders for upcoming lectures and queues them again
+
+  4. Updated Functions
+    - `schedule_lecture_notifications()` queues reminders through
+      `queue_lecture_reminders` instead of the fixed 24h and 1 minute pair
+
+  5. Triggers
+    - Changing `email_preferences.reminder_offsets` or `lecture_reminders`
+      recomputes that student's future reminders
+    - Changing the institution default recomputes them for every student who
+      has not chosen their own
+
+  6. Security
+    - Everyone signed in can read `institution_settings`; only admins update it
+    - The new functions are for triggers and the service role; clients cannot
+      call them
+*/
+
+CREATE TABLE IF NOT EXISTS institution_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  default_reminder_offsets integer[] NOT NULL DEFAULT '{1440,1}',
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO institution_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE institution_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view institution settings"
+  ON institution_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update institution settings"
+  ON institution_settings FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+ALTER TABLE email_preferences
+  ADD COLUMN IF NOT EXISTS reminder_offsets integer[]
+    CHECK (reminder_offsets IS NULL OR 0 < ALL (reminder_offsets));
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS offset_minutes integer;
+
+-- Effective reminder lead times for a user
+CREATE OR REPLACE FUNCTION reminder_offsets_for(p_user_id uuid)
+RETURNS integer[] AS $$
+  SELECT COALESCE(
+    (SELECT reminder_offsets FROM email_preferences WHERE user_id = p_user_id),
+    (SELECT default_reminder_offsets FROM institution_settings WHERE id),
+    '{1440,1}'::integer[]
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION reminder_offsets_for(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Human-readable lead time for message text
+CREATE OR REPLACE FUNCTION format_reminder_offset(p_minutes integer)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN p_minutes % 1440 = 0 THEN (p_minutes / 1440) || CASE WHEN p_minutes = 1440 THEN ' day' ELSE ' days' END
+    WHEN p_minutes % 60 = 0 THEN (p_minutes / 60) || CASE WHEN p_minutes = 60 THEN ' hour' ELSE ' hours' END
+    ELSE p_minutes || CASE WHEN p_minutes = 1 THEN ' minute' ELSE ' minutes' END
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Function to queue a student's reminders for one lecture
+CREATE OR REPLACE FUNCTION queue_lecture_reminders(lecture lectures, p_student_id uuid)
+RETURNS void AS $$
+DECLARE
+  student_record RECORD;
+  student_email TEXT;
+  lead_minutes INTEGER;
+BEGIN
+  SELECT 
+    p.email,
+    p.notification_email,
+    ep.notification_email as pref_email,
+    ep.lecture_reminders
+  INTO student_record
+  FROM profiles p
+  LEFT JOIN email_preferences ep ON ep.user_id = p.id
+  WHERE p.id = p_student_id;
+
+  -- Only create notifications if student has lecture reminders enabled (default true)
+  IF NOT FOUND OR NOT COALESCE(student_record.lecture_reminders, true) THEN
+    RETURN;
+  END IF;
+
+  -- Determine which email to use
+  student_email := COALESCE(
+    student_record.pref_email,
+    student_record.notification_email,
+    student_record.email
+  );
+
+  FOREACH lead_minutes IN ARRAY reminder_offsets_for(p_student_id)
+  LOOP
+    -- Skip lead times that have already passed
+    IF lecture.scheduled_at - make_interval(mins => lead_minutes) <= NOW() THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO notifications (
+      lecture_id,
+      recipient_id,
+      email,
+      subject,
+      message,
+      scheduled_for,
+      status,
+      kind,
+      offset_minutes
+    ) VALUES (
+      lecture.id,
+      p_student_id,
+      student_email,
+      'Lecture Reminder: ' || lecture.title,
+      'Your lecture "' || lecture.title || '" starts in ' || format_reminder_offset(lead_minutes) ||
+      ', on ' || TO_CHAR(lecture.scheduled_at, 'Day, DD Mon YYYY at HH24:MI') || '.' ||
+      CASE 
+        WHEN lecture.location IS NOT NULL THEN ' Location: ' || lecture.location || '.'
+        ELSE ''
+      END ||
+      CASE 
+        WHEN lecture.meeting_url IS NOT NULL THEN ' Meeting URL: ' || lecture.meeting_url
+        ELSE ''
+      END,
+      lecture.scheduled_at - make_interval(mins => lead_minutes),
+      'pending',
+      'reminder',
+      lead_minutes
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_lecture_reminders(lectures, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Function to recompute a student's reminders for all upcoming lectures
+CREATE OR REPLACE FUNCTION requeue_student_reminders(p_student_id uuid, p_reason text)
+RETURNS void AS $$
+DECLARE
+  lecture_record lectures;
+BEGIN
+  UPDATE notifications n
+  SET status = 'superseded',
+      status_reason = p_reason
+  FROM lectures l
+  WHERE n.lecture_id = l.id
+    AND n.recipient_id = p_student_id
+    AND n.kind = 'reminder'
+    AND n.status IN ('pending', 'failed')
+    AND l.scheduled_at > NOW();
+
+  FOR lecture_record IN
+    SELECT l.*
+    FROM lectures l
+    JOIN enrollments e ON e.course_id = l.course_id
+    WHERE e.student_id = p_student_id
+      AND e.is_active = true
+      AND l.is_cancelled IS NOT TRUE
+      AND l.scheduled_at > NOW()
+  LOOP
+    PERFORM queue_lecture_reminders(lecture_record, p_student_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION requeue_student_reminders(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Function to schedule notifications when a lecture is created/updated
+CREATE OR REPLACE FUNCTION schedule_lecture_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  enrollment_record RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- Cancelled: nothing still queued for this lecture should go out
+    IF NEW.is_cancelled IS TRUE AND OLD.is_cancelled IS NOT TRUE THEN
+      -- Dropping the claim on rows being sent stops the worker marking them sent or retrying them
+      UPDATE notifications
+      SET status = 'cancelled',
+          status_reason = 'Lecture cancelled',
+          claimed_by = NULL,
+          locked_until = NULL
+      WHERE lecture_id = NEW.id
+        AND status IN ('pending', 'failed', 'processing');
+
+      -- Tell students, unless the lecture has already happened
+      IF NEW.scheduled_at > NOW() THEN
+        PERFORM queue_lecture_cancellation_notices(NEW);
+      END IF;
+
+      RETURN NEW;
+    END IF;
+
+    -- Rescheduled: queued rows describe the old time
+    IF OLD.scheduled_at IS DISTINCT FROM NEW.scheduled_at THEN
+      UPDATE notifications
+      SET status = 'superseded',
+          status_reason = 'Lecture rescheduled from ' ||
+            to_char(OLD.scheduled_at AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"') || ' to ' ||
+            to_char(NEW.scheduled_at AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"'),
+          claimed_by = NULL,
+          locked_until = NULL
+      WHERE lecture_id = NEW.id
+        AND status IN ('pending', 'failed', 'processing');
+    END IF;
+  END IF;
+
+  -- Only queue for a new lecture, a changed time or a reinstated lecture
+  IF NEW.is_cancelled IS NOT TRUE AND (
+    TG_OP = 'INSERT'
+    OR OLD.scheduled_at IS DISTINCT FROM NEW.scheduled_at
+    OR OLD.is_cancelled IS TRUE
+  ) THEN
+    -- Get all enrolled students for this course
+    FOR enrollment_record IN 
+      SELECT e.student_id
+      FROM enrollments e
+      WHERE e.course_id = NEW.course_id 
+        AND e.is_active = true
+    LOOP
+      PERFORM queue_lecture_reminders(NEW, enrollment_record.student_id);
+    END LOOP;
+  END IF;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to recompute reminders when a student changes their lead times
+CREATE OR REPLACE FUNCTION requeue_reminders_on_preference_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR OLD.reminder_offsets IS DISTINCT FROM NEW.reminder_offsets
+    OR OLD.lecture_reminders IS DISTINCT FROM NEW.lecture_reminders THEN
+    PERFORM requeue_student_reminders(NEW.user_id, 'Reminder preferences changed');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS email_preferences_reminder_trigger ON email_preferences;
+CREATE TRIGGER email_preferences_reminder_trigger
+  AFTER INSERT OR UPDATE OF reminder_offsets, lecture_reminders ON email_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION requeue_reminders_on_preference_change();
+
+-- Function to recompute reminders for students on the institution default
+CREATE OR REPLACE FUNCTION requeue_reminders_on_default_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  student_record RECORD;
+BEGIN
+  IF OLD.default_reminder_offsets IS DISTINCT FROM NEW.default_reminder_offsets THEN
+    FOR student_record IN
+      SELECT p.id
+      FROM profiles p
+      LEFT JOIN email_preferences ep ON ep.user_id = p.id
+      WHERE p.role = 'student'
+        AND ep.reminder_offsets IS NULL
+    LOOP
+      PERFORM requeue_student_reminders(student_record.id, 'Institution reminder defaults changed');
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS institution_settings_reminder_trigger ON institution_settings;
+CREATE TRIGGER institution_settings_reminder_trigger
+  AFTER UPDATE OF default_reminder_offsets ON institution_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION requeue_reminders_on_default_change();
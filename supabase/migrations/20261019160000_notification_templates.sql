@@ -0,0 +1,284 @@
+/*
+  # Notification templates
+
+  Subjects and bodies were concatenated inside each producer, so the wording
+  differed between them. Producers now queue only the facts; the edge layer
+  renders every message from an editable template.
+
+  1. New Tables
+    - `notification_templates` - one subject and body per notification kind
+      and locale. Bodies use `{{variable}}` placeholders and
+      `{{#variable}}...{{/variable}}` blocks that only render when the
+      variable has a value.
+
+  2. Changes
+    - `profiles.locale` - language the recipient's notifications use
+    - `notifications.subject` and `notifications.message` are optional; they
+      are filled in with the rendered text once a notification is sent
+
+  3. Updated Functions
+    - `queue_lecture_reminders()`, `queue_lecture_cancellation_notices()` and
+      `send_lecture_scheduled_notifications()` no longer build message text
+    - `format_reminder_offset()` is dropped; lead times are formatted by the
+      renderer
+
+  4. Security
+    - Everyone signed in can read templates; only admins can change them
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS locale text NOT NULL DEFAULT 'en';
+
+ALTER TABLE notifications
+  ALTER COLUMN subject DROP NOT NULL,
+  ALTER COLUMN message DROP NOT NULL;
+
+CREATE TABLE IF NOT EXISTS notification_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL CHECK (kind IN ('scheduled', 'rescheduled', 'reminder', 'cancelled', 'manual')),
+  locale text NOT NULL DEFAULT 'en',
+  subject text NOT NULL,
+  body text NOT NULL,
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (kind, locale)
+);
+
+ALTER TABLE notification_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view notification templates"
+  ON notification_templates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert notification templates"
+  ON notification_templates FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Admins can update notification templates"
+  ON notification_templates FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Admins can delete notification templates"
+  ON notification_templates FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+INSERT INTO notification_templates (kind, locale, subject, body) VALUES
+(
+  'scheduled',
+  'en',
+  'New Lecture Scheduled: {{lecture_title}}',
+  E'Hi {{recipient_name}},\n\nA new lecture "{{lecture_title}}" has been scheduled for {{course_title}} ({{course_code}}) on {{lecture_time}}.\n{{#venue}}\nLocation: {{venue}}{{/venue}}{{#meeting_url}}\nMeeting URL: {{meeting_url}}{{/meeting_url}}'
+),
+(
+  'rescheduled',
+  'en',
+  'Lecture Rescheduled: {{lecture_title}}',
+  E'Hi {{recipient_name}},\n\nThe lecture "{{lecture_title}}" for {{course_title}} ({{course_code}}) has moved{{#previous_time}} from {{previous_time}}{{/previous_time}} to {{lecture_time}}.\n{{#venue}}\nLocation: {{venue}}{{/venue}}{{#meeting_url}}\nMeeting URL: {{meeting_url}}{{/meeting_url}}'
+),
+(
+  'reminder',
+  'en',
+  'Lecture Reminder: {{lecture_title}}',
+  E'Hi {{recipient_name}},\n\nYour {{course_code}} lecture "{{lecture_title}}" starts in {{lead_time}}, on {{lecture_time}}.\n{{#venue}}\nLocation: {{venue}}{{/venue}}{{#meeting_url}}\nMeeting URL: {{meeting_url}}{{/meeting_url}}'
+),
+(
+  'cancelled',
+  'en',
+  'Lecture Cancelled: {{lecture_title}}',
+  E'Hi {{recipient_name}},\n\nThe lecture "{{lecture_title}}" for {{course_title}} ({{course_code}}) on {{lecture_time}} has been cancelled.{{#cancellation_reason}}\n\nReason: {{cancellation_reason}}{{/cancellation_reason}}'
+),
+(
+  'manual',
+  'en',
+  'Reminder: {{lecture_title}}',
+  E'Hi {{recipient_name}},\n\nThis is a reminder for {{course_code}} - {{lecture_title}} on {{lecture_time}}.{{#note}}\n\n{{note}}{{/note}}\n{{#venue}}\nLocation: {{venue}}{{/venue}}{{#meeting_url}}\nMeeting URL: {{meeting_url}}{{/meeting_url}}'
+)
+ON CONFLICT (kind, locale) DO NOTHING;
+
+DROP FUNCTION IF EXISTS format_reminder_offset(integer);
+
+-- Function to queue a student's reminders for one lecture
+CREATE OR REPLACE FUNCTION queue_lecture_reminders(lecture lectures, p_student_id uuid)
+RETURNS void AS $$
+DECLARE
+  student_record RECORD;
+  student_email TEXT;
+  lead_minutes INTEGER;
+BEGIN
+  SELECT 
+    p.email,
+    p.notification_email,
+    ep.notification_email as pref_email,
+    ep.lecture_reminders
+  INTO student_record
+  FROM profiles p
+  LEFT JOIN email_preferences ep ON ep.user_id = p.id
+  WHERE p.id = p_student_id;
+
+  -- Only create notifications if student has lecture reminders enabled (default true)
+  IF NOT FOUND OR NOT COALESCE(student_record.lecture_reminders, true) THEN
+    RETURN;
+  END IF;
+
+  -- Determine which email to use
+  student_email := COALESCE(
+    student_record.pref_email,
+    student_record.notification_email,
+    student_record.email
+  );
+
+  FOREACH lead_minutes IN ARRAY reminder_offsets_for(p_student_id)
+  LOOP
+    -- Skip lead times that have already passed
+    IF lecture.scheduled_at - make_interval(mins => lead_minutes) <= NOW() THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO notifications (
+      lecture_id,
+      recipient_id,
+      email,
+      scheduled_for,
+      status,
+      kind,
+      offset_minutes
+    ) VALUES (
+      lecture.id,
+      p_student_id,
+      student_email,
+      lecture.scheduled_at - make_interval(mins => lead_minutes),
+      'pending',
+      'reminder',
+      lead_minutes
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_lecture_reminders(lectures, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Function to queue cancellation notices for a lecture's students
+CREATE OR REPLACE FUNCTION queue_lecture_cancellation_notices(lecture lectures)
+RETURNS void AS $$
+DECLARE
+  enrollment_record RECORD;
+  student_email TEXT;
+BEGIN
+  FOR enrollment_record IN
+    SELECT 
+      e.student_id,
+      p.email,
+      p.notification_email,
+      ep.notification_email as pref_email,
+      ep.lecture_reminders
+    FROM enrollments e
+    JOIN profiles p ON e.student_id = p.id
+    LEFT JOIN email_preferences ep ON ep.user_id = p.id
+    WHERE e.course_id = lecture.course_id 
+      AND e.is_active = true
+  LOOP
+    -- Skip if lecture reminders are disabled
+    IF enrollment_record.lecture_reminders IS FALSE THEN
+      CONTINUE;
+    END IF;
+    
+    -- Determine which email to use
+    student_email := COALESCE(
+      enrollment_record.pref_email,
+      enrollment_record.notification_email,
+      enrollment_record.email
+    );
+    
+    INSERT INTO notifications (
+      recipient_id,
+      lecture_id,
+      email,
+      status,
+      scheduled_for,
+      kind,
+      payload
+    ) VALUES (
+      enrollment_record.student_id,
+      lecture.id,
+      student_email,
+      'pending',
+      NOW(),
+      'cancelled',
+      jsonb_build_object('cancellation_reason', NULLIF(TRIM(lecture.cancellation_reason), ''))
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_lecture_cancellation_notices(lectures) FROM PUBLIC, anon, authenticated;
+
+-- Function to send notifications when a lecture is scheduled
+CREATE OR REPLACE FUNCTION send_lecture_scheduled_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  enrollment_record RECORD;
+  student_email TEXT;
+BEGIN
+  -- A cancelled lecture gets a cancellation notice instead
+  IF NEW.is_cancelled IS TRUE THEN
+    RETURN NEW;
+  END IF;
+
+  -- Get all enrolled students for this course
+  FOR enrollment_record IN
+    SELECT 
+      e.student_id,
+      p.email,
+      p.notification_email,
+      ep.notification_email as pref_email,
+      ep.lecture_reminders
+    FROM enrollments e
+    JOIN profiles p ON e.student_id = p.id
+    LEFT JOIN email_preferences ep ON ep.user_id = p.id
+    WHERE e.course_id = NEW.course_id 
+    AND e.is_active = true
+  LOOP
+    -- Skip if lecture reminders are disabled
+    IF enrollment_record.lecture_reminders IS FALSE THEN
+      CONTINUE;
+    END IF;
+    
+    -- Determine which email to use
+    student_email := COALESCE(
+      enrollment_record.pref_email,
+      enrollment_record.notification_email,
+      enrollment_record.email
+    );
+    
+    -- Insert notification record
+    INSERT INTO notifications (
+      recipient_id,
+      lecture_id,
+      email,
+      status,
+      scheduled_for,
+      kind,
+      payload
+    ) VALUES (
+      enrollment_record.student_id,
+      NEW.id,
+      student_email,
+      'pending',
+      NOW(),
+      CASE WHEN TG_OP = 'INSERT' THEN 'scheduled' ELSE 'rescheduled' END,
+      CASE
+        WHEN TG_OP = 'UPDATE' THEN jsonb_build_object('previous_scheduled_at', OLD.scheduled_at)
+        ELSE '{}'::jsonb
+      END
+    );
+  END LOOP;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
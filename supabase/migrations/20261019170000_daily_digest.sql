@@ -0,0 +1,310 @@
+/*
+  # Daily digest
+
+  `email_preferences.daily_digest` was stored but never read. Students who opt
+  in now get one email each morning, in their own timezone, listing that day's
+  lectures and anything rescheduled or cancelled since their last digest.
+
+  1. Changes
+    - `profiles.timezone` - IANA timezone of the user; NULL means the
+      institution's
+    - `institution_settings.timezone` - default timezone, `UTC` until set
+    - `institution_settings.digest_hour` - local hour the digest goes out
+    - `email_preferences.digest_replaces_reminders` - skip the one day
+      reminder when the digest already covers the lecture
+    - `notifications.kind` and `notification_templates.kind` allow `digest`
+    - Digest rows carry their lectures in `payload` and have no lecture
+    - At most one digest per student per local day
+
+  2. New Functions
+    - `timezone_for(user_id)` - effective timezone for a user
+    - `queue_daily_digests()` - queues digests for students whose morning
+      has come and who haven't had today's yet
+
+  3. Updated Functions
+    - `queue_lecture_reminders()` leaves out the one day lead time for
+      students whose digest replaces it
+    - `requeue_reminders_on_preference_change()` also reacts to the digest
+      switches
+
+  4. Scheduling
+    - pg_cron job `queue-daily-digests` runs hourly
+
+  5. Security
+    - Only cron and the service role can run `queue_daily_digests()` or read
+      another user's timezone through `timezone_for()`
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS timezone text;
+
+ALTER TABLE institution_settings
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC',
+  ADD COLUMN IF NOT EXISTS digest_hour integer NOT NULL DEFAULT 7 CHECK (digest_hour BETWEEN 0 AND 23);
+
+ALTER TABLE email_preferences
+  ADD COLUMN IF NOT EXISTS digest_replaces_reminders boolean NOT NULL DEFAULT false;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_kind_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_kind_check
+  CHECK (kind IN ('scheduled', 'rescheduled', 'reminder', 'cancelled', 'manual', 'digest'));
+
+ALTER TABLE notification_templates DROP CONSTRAINT IF EXISTS notification_templates_kind_check;
+ALTER TABLE notification_templates ADD CONSTRAINT notification_templates_kind_check
+  CHECK (kind IN ('scheduled', 'rescheduled', 'reminder', 'cancelled', 'manual', 'digest'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_digest_day
+  ON notifications(recipient_id, (payload->>'digest_date'))
+  WHERE kind = 'digest';
+
+INSERT INTO notification_templates (kind, locale, subject, body) VALUES
+(
+  'digest',
+  'en',
+  'Your lectures for {{digest_date}}',
+  E'Hi {{recipient_name}},\n\n{{#lecture_list}}Here are your lectures for {{digest_date}}:\n\n{{lecture_list}}{{/lecture_list}}{{#no_lectures}}You have no lectures today.{{/no_lectures}}{{#changes_list}}\n\nChanges since your last digest:\n\n{{changes_list}}{{/changes_list}}'
+)
+ON CONFLICT (kind, locale) DO NOTHING;
+
+-- Effective timezone for a user
+CREATE OR REPLACE FUNCTION timezone_for(p_user_id uuid)
+RETURNS text AS $$
+  SELECT COALESCE(
+    (SELECT timezone FROM profiles WHERE id = p_user_id),
+    (SELECT timezone FROM institution_settings WHERE id),
+    'UTC'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION timezone_for(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Function to queue the morning digest for every student who is due one
+CREATE OR REPLACE FUNCTION queue_daily_digests()
+RETURNS integer AS $$
+DECLARE
+  student_record RECORD;
+  send_hour INTEGER;
+  local_now TIMESTAMP;
+  due_at TIMESTAMP;
+  day_start TIMESTAMPTZ;
+  since TIMESTAMPTZ;
+  todays_lectures JSONB;
+  recent_changes JSONB;
+  queued INTEGER := 0;
+BEGIN
+  SELECT digest_hour INTO send_hour FROM institution_settings WHERE id;
+  send_hour := COALESCE(send_hour, 7);
+
+  FOR student_record IN
+    SELECT 
+      p.id,
+      p.email,
+      p.notification_email,
+      ep.notification_email as pref_email,
+      timezone_for(p.id) as tz
+    FROM profiles p
+    JOIN email_preferences ep ON ep.user_id = p.id
+    WHERE p.role = 'student'
+      AND ep.daily_digest = true
+  LOOP
+    local_now := NOW() AT TIME ZONE student_record.tz;
+
+    -- The last local send time that has come; a late send hour's grace runs past midnight
+    due_at := date_trunc('day', local_now) + make_interval(hours => send_hour);
+    IF due_at > local_now THEN
+      due_at := due_at - INTERVAL '1 day';
+    END IF;
+
+    -- A few hours' grace lets a missed run catch up without sending late in the day
+    IF local_now >= due_at + INTERVAL '4 hours' THEN
+      CONTINUE;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM notifications
+      WHERE recipient_id = student_record.id
+        AND kind = 'digest'
+        AND payload->>'digest_date' = due_at::date::text
+    ) THEN
+      CONTINUE;
+    END IF;
+
+    day_start := date_trunc('day', due_at) AT TIME ZONE student_record.tz;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'lecture_id', l.id,
+      'title', l.title,
+      'course_title', c.title,
+      'course_code', c.course_code,
+      'scheduled_at', l.scheduled_at,
+      'location', l.location,
+      'meeting_url', l.meeting_url
+    ) ORDER BY l.scheduled_at), '[]'::jsonb)
+    INTO todays_lectures
+    FROM lectures l
+    JOIN courses c ON c.id = l.course_id
+    JOIN enrollments e ON e.course_id = l.course_id
+    WHERE e.student_id = student_record.id
+      AND e.is_active = true
+      AND l.is_cancelled IS NOT TRUE
+      AND l.scheduled_at >= day_start
+      AND l.scheduled_at < day_start + INTERVAL '1 day';
+
+    -- Changes are whatever was rescheduled or cancelled since the last digest
+    SELECT COALESCE(MAX(created_at), NOW() - INTERVAL '1 day')
+    INTO since
+    FROM notifications
+    WHERE recipient_id = student_record.id
+      AND kind = 'digest';
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'kind', n.kind,
+      'lecture_id', l.id,
+      'title', l.title,
+      'course_code', c.course_code,
+      'scheduled_at', l.scheduled_at,
+      'previous_scheduled_at', n.payload->'previous_scheduled_at',
+      'cancellation_reason', n.payload->'cancellation_reason'
+    ) ORDER BY n.created_at), '[]'::jsonb)
+    INTO recent_changes
+    FROM notifications n
+    JOIN lectures l ON l.id = n.lecture_id
+    JOIN courses c ON c.id = l.course_id
+    WHERE n.recipient_id = student_record.id
+      AND n.kind IN ('rescheduled', 'cancelled')
+      AND n.created_at > since
+      AND l.scheduled_at >= day_start;
+
+    -- Nothing to say today
+    IF jsonb_array_length(todays_lectures) = 0 AND jsonb_array_length(recent_changes) = 0 THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO notifications (
+      recipient_id,
+      email,
+      status,
+      scheduled_for,
+      kind,
+      payload
+    ) VALUES (
+      student_record.id,
+      COALESCE(student_record.pref_email, student_record.notification_email, student_record.email),
+      'pending',
+      NOW(),
+      'digest',
+      jsonb_build_object(
+        'digest_date', due_at::date,
+        'timezone', student_record.tz,
+        'lectures', todays_lectures,
+        'changes', recent_changes
+      )
+    )
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND THEN
+      queued := queued + 1;
+    END IF;
+  END LOOP;
+
+  RETURN queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_daily_digests() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION queue_daily_digests() TO service_role;
+
+-- Function to queue a student's reminders for one lecture
+CREATE OR REPLACE FUNCTION queue_lecture_reminders(lecture lectures, p_student_id uuid)
+RETURNS void AS $$
+DECLARE
+  student_record RECORD;
+  student_email TEXT;
+  lead_minutes INTEGER;
+BEGIN
+  SELECT 
+    p.email,
+    p.notification_email,
+    ep.notification_email as pref_email,
+    ep.lecture_reminders,
+    COALESCE(ep.daily_digest AND ep.digest_replaces_reminders, false) as digest_replaces_reminders
+  INTO student_record
+  FROM profiles p
+  LEFT JOIN email_preferences ep ON ep.user_id = p.id
+  WHERE p.id = p_student_id;
+
+  -- Only create notifications if student has lecture reminders enabled (default true)
+  IF NOT FOUND OR NOT COALESCE(student_record.lecture_reminders, true) THEN
+    RETURN;
+  END IF;
+
+  -- Determine which email to use
+  student_email := COALESCE(
+    student_record.pref_email,
+    student_record.notification_email,
+    student_record.email
+  );
+
+  FOREACH lead_minutes IN ARRAY reminder_offsets_for(p_student_id)
+  LOOP
+    -- Skip lead times that have already passed
+    IF lecture.scheduled_at - make_interval(mins => lead_minutes) <= NOW() THEN
+      CONTINUE;
+    END IF;
+
+    -- The morning digest stands in for the day-before reminder
+    IF lead_minutes = 1440 AND student_record.digest_replaces_reminders THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO notifications (
+      lecture_id,
+      recipient_id,
+      email,
+      scheduled_for,
+      status,
+      kind,
+      offset_minutes
+    ) VALUES (
+      lecture.id,
+      p_student_id,
+      student_email,
+      lecture.scheduled_at - make_interval(mins => lead_minutes),
+      'pending',
+      'reminder',
+      lead_minutes
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_lecture_reminders(lectures, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Function to recompute reminders when a student changes their lead times
+CREATE OR REPLACE FUNCTION requeue_reminders_on_preference_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR OLD.reminder_offsets IS DISTINCT FROM NEW.reminder_offsets
+    OR OLD.lecture_reminders IS DISTINCT FROM NEW.lecture_reminders
+    OR OLD.daily_digest IS DISTINCT FROM NEW.daily_digest
+    OR OLD.digest_replaces_reminders IS DISTINCT FROM NEW.digest_replaces_reminders THEN
+    PERFORM requeue_student_reminders(NEW.user_id, 'Reminder preferences changed');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS email_preferences_reminder_trigger ON email_preferences;
+CREATE TRIGGER email_preferences_reminder_trigger
+  AFTER INSERT OR UPDATE OF reminder_offsets, lecture_reminders, daily_digest, digest_replaces_reminders
+  ON email_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION requeue_reminders_on_preference_change();
+
+SELECT cron.schedule(
+  'queue-daily-digests',
+  '0 * * * *',
+  'SELECT queue_daily_digests()'
+);
@@ -0,0 +1,29 @@
+/*
+  # Validate timezone names
+
+  Timezones now decide when digests go out and how every notification shows
+  lecture times, so an unknown zone name must be rejected up front rather
+  than failing later inside the scheduler.
+
+  1. New Functions
+    - `is_valid_timezone(name)` - whether the name is in the tz database
+
+  2. Changes
+    - CHECK constraints on `profiles.timezone` and
+      `institution_settings.timezone`
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_timezone(p_name text)
+RETURNS boolean AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_name);
+$$ LANGUAGE sql STABLE;
+
+UPDATE profiles SET timezone = NULL WHERE timezone IS NOT NULL AND NOT is_valid_timezone(timezone);
+
+ALTER TABLE profiles
+  ADD CONSTRAINT profiles_timezone_check
+  CHECK (timezone IS NULL OR is_valid_timezone(timezone));
+
+ALTER TABLE institution_settings
+  ADD CONSTRAINT institution_settings_timezone_check
+  CHECK (is_valid_timezone(timezone));
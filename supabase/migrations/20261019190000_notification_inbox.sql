@@ -0,0 +1,65 @@
+/*
+  # In-app notification inbox
+
+  Users could only read their notifications by email. The dashboard header now
+  has an inbox, so notifications track whether they have been read there.
+
+  1. Changes
+    - `notifications.read_at` - when the recipient read it in the app
+    - Index for counting a user's unread notifications
+
+  2. New Functions
+    - `mark_notifications_read(ids)` - marks the caller's own notifications read
+    - `mark_all_notifications_read()` - marks everything in the caller's inbox
+      read
+
+  3. Security
+    - Users still cannot update notifications directly; both functions only
+      touch rows where `recipient_id = auth.uid()`
+*/
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS read_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient_unread
+  ON notifications(recipient_id, scheduled_for DESC)
+  WHERE read_at IS NULL;
+
+CREATE OR REPLACE FUNCTION mark_notifications_read(p_ids uuid[])
+RETURNS integer AS $$
+DECLARE
+  marked INTEGER;
+BEGIN
+  UPDATE notifications
+  SET read_at = NOW()
+  WHERE id = ANY(p_ids)
+    AND recipient_id = auth.uid()
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS marked = ROW_COUNT;
+  RETURN marked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION mark_all_notifications_read()
+RETURNS integer AS $$
+DECLARE
+  marked INTEGER;
+BEGIN
+  -- Only what the inbox shows: due, and not withdrawn
+  UPDATE notifications
+  SET read_at = NOW()
+  WHERE recipient_id = auth.uid()
+    AND read_at IS NULL
+    AND scheduled_for <= NOW()
+    AND status NOT IN ('superseded', 'cancelled');
+
+  GET DIAGNOSTICS marked = ROW_COUNT;
+  RETURN marked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION mark_notifications_read(uuid[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION mark_all_notifications_read() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mark_notifications_read(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_all_notifications_read() TO authenticated;
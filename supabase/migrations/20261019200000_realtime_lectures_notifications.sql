@@ -0,0 +1,31 @@
+/*
+  # Realtime for lectures, enrollments and notifications
+
+  Dashboards loaded once on mount. They now subscribe to changes instead.
+
+  1. Changes
+    - `lectures`, `enrollments` and `notifications` join the
+      `supabase_realtime` publication. Realtime applies each table's RLS, so
+      users only receive rows they could already select.
+    - `lectures` uses REPLICA IDENTITY FULL so updates carry the previous
+      row, which is how clients tell a reschedule from other edits
+*/
+
+DO $$
+DECLARE
+  table_name TEXT;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY['lectures', 'enrollments', 'notifications']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END $$;
+
+ALTER TABLE lectures REPLICA IDENTITY FULL;
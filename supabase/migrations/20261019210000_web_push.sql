@@ -0,0 +1,88 @@
+/*
+  # Web Push subscriptions
+
+  Notifications can now also go to browsers as Web Push messages. Each
+  browser a user enables push on registers a subscription, and the
+  notification processor sends every due notification to all of the
+  recipient's devices alongside the email.
+
+  1. New Tables
+    - `push_subscriptions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `endpoint` (text, unique) - the browser push service URL
+      - `p256dh`, `auth` (text) - the browser's encryption keys
+      - `user_agent` (text) - shown so users can tell their devices apart
+      - `created_at`, `last_used_at` (timestamptz)
+
+  2. Changes
+    - `notifications.push_sent_at` - set once the push has gone out, so a
+      retried email doesn't push again
+
+  3. New Functions
+    - `register_push_subscription(...)` - saves the caller's subscription.
+      Returns NULL when another user already holds the endpoint; the browser
+      then subscribes again to get a new one.
+
+  4. Security
+    - Users can see and remove only their own subscriptions
+    - Registering never takes over another user's subscription
+*/
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push subscriptions"
+  ON push_subscriptions FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own push subscriptions"
+  ON push_subscriptions FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS push_sent_at timestamptz;
+
+CREATE OR REPLACE FUNCTION register_push_subscription(
+  p_endpoint text,
+  p_p256dh text,
+  p_auth text,
+  p_user_agent text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  subscription_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), p_endpoint, p_p256dh, p_auth, p_user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent
+  WHERE push_subscriptions.user_id = auth.uid()
+  RETURNING id INTO subscription_id;
+
+  RETURN subscription_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION register_push_subscription(text, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION register_push_subscription(text, text, text, text) TO authenticated;
@@ -0,0 +1,136 @@
+/*
+  # SMS notifications
+
+  Many students check SMS far more than email. Students can now add a phone
+  number, verify it with a one-time code, and choose which kinds of
+  notification they also want by text message.
+
+  1. New Tables
+    - `phone_verifications` - the pending code for a user's phone number.
+      Only the `verify-phone` edge function reads or writes it.
+      - `user_id` (uuid, primary key, references profiles)
+      - `phone_number` (text) - the number the code was sent to
+      - `code_hash` (text) - SHA-256 of the code; the code itself is never stored
+      - `attempts` (integer) - wrong guesses so far
+      - `expires_at`, `created_at` (timestamptz)
+
+  2. Changes
+    - `profiles.phone_number` - in E.164 form, e.g. +2348012345678
+    - `profiles.phone_verified_at` - set by the edge function once the code
+      is confirmed; cleared whenever a user changes or removes their number
+    - `email_preferences.sms_kinds` - notification kinds to also send by SMS.
+      Digests are too long for a text message, so they can't be chosen.
+    - `notifications.sms_sent_at` - set once the text has gone out, so a
+      retried email doesn't text again
+    - `notifications.email_sent_at` - set once the email has gone out, so a
+      row retried for a failed text doesn't email again
+    - `notification_templates.channel` - 'email' or 'sms'. SMS templates have
+      no subject and are kept short. Templates are now unique per kind,
+      locale and channel.
+
+  3. Security
+    - Users cannot mark their own number verified; only the service role
+      can set `phone_verified_at`
+    - `phone_verifications` has RLS enabled and no policies
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS phone_number text,
+  ADD COLUMN IF NOT EXISTS phone_verified_at timestamptz;
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_phone_number_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_phone_number_check
+  CHECK (phone_number IS NULL OR phone_number ~ '^\+[1-9][0-9]{7,14}$');
+
+CREATE OR REPLACE FUNCTION guard_phone_verification()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- The verify-phone edge function sets both columns together
+  IF COALESCE(auth.role(), '') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.phone_number IS DISTINCT FROM OLD.phone_number THEN
+    NEW.phone_verified_at := NULL;
+  ELSE
+    NEW.phone_verified_at := OLD.phone_verified_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS profiles_phone_verification_trigger ON profiles;
+CREATE TRIGGER profiles_phone_verification_trigger
+  BEFORE UPDATE OF phone_number, phone_verified_at ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_phone_verification();
+
+CREATE TABLE IF NOT EXISTS phone_verifications (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  phone_number text NOT NULL,
+  code_hash text NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE phone_verifications ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE email_preferences
+  ADD COLUMN IF NOT EXISTS sms_kinds text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE email_preferences DROP CONSTRAINT IF EXISTS email_preferences_sms_kinds_check;
+ALTER TABLE email_preferences ADD CONSTRAINT email_preferences_sms_kinds_check
+  CHECK (sms_kinds <@ ARRAY['scheduled', 'rescheduled', 'reminder', 'cancelled', 'manual']);
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS sms_sent_at timestamptz,
+  ADD COLUMN IF NOT EXISTS email_sent_at timestamptz;
+
+ALTER TABLE notification_templates
+  ADD COLUMN IF NOT EXISTS channel text NOT NULL DEFAULT 'email'
+  CHECK (channel IN ('email', 'sms'));
+
+ALTER TABLE notification_templates DROP CONSTRAINT IF EXISTS notification_templates_kind_locale_key;
+ALTER TABLE notification_templates DROP CONSTRAINT IF EXISTS notification_templates_kind_locale_channel_key;
+ALTER TABLE notification_templates ADD CONSTRAINT notification_templates_kind_locale_channel_key
+  UNIQUE (kind, locale, channel);
+
+INSERT INTO notification_templates (kind, locale, channel, subject, body) VALUES
+(
+  'scheduled',
+  'en',
+  'sms',
+  '',
+  'New {{course_code}} lecture: {{lecture_title}}, {{lecture_time}}{{#venue}} at {{venue}}{{/venue}}.'
+),
+(
+  'rescheduled',
+  'en',
+  'sms',
+  '',
+  '{{course_code}} {{lecture_title}} moved to {{lecture_time}}{{#venue}} at {{venue}}{{/venue}}.'
+),
+(
+  'reminder',
+  'en',
+  'sms',
+  '',
+  '{{course_code}} {{lecture_title}} starts in {{lead_time}}{{#venue}} at {{venue}}{{/venue}}.'
+),
+(
+  'cancelled',
+  'en',
+  'sms',
+  '',
+  '{{course_code}} {{lecture_title}} on {{lecture_time}} is cancelled.{{#cancellation_reason}} {{cancellation_reason}}{{/cancellation_reason}}'
+),
+(
+  'manual',
+  'en',
+  'sms',
+  '',
+  'Reminder: {{course_code}} {{lecture_title}}, {{lecture_time}}.{{#note}} {{note}}{{/note}}'
+)
+ON CONFLICT (kind, locale, channel) DO NOTHING;
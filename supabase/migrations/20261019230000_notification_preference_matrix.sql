@@ -0,0 +1,542 @@
+/*
+  # Notification preference matrix
+
+  `email_preferences` had one `lecture_reminders` switch and one
+  `daily_digest` switch, and every notification went to every channel.
+  Students now choose, for each kind of notification, whether it arrives by
+  email, in the app inbox and as a push notification.
+
+  1. New Tables
+    - `notification_preference_defaults` - whether each kind goes to each
+      channel for someone who hasn't chosen
+    - `notification_preferences` - a user's choices that differ from the
+      defaults, one row per kind and channel
+
+    Kinds are `scheduled` (new lecture), `reminder`, `rescheduled`,
+    `cancelled`, `announcement` and `digest`; channels are `email`, `in_app`
+    and `push`. Manual reminders from a lecturer follow `reminder`.
+
+  2. Changes
+    - `notifications.channels` - where the notification is delivered,
+      resolved when it is queued
+    - `email_preferences.lecture_reminders` and `daily_digest` are replaced by
+      the matrix. Students who had reminders off have every lecture
+      notification off; students who had the digest on get it by email and
+      in the app.
+
+  3. New Functions
+    - `notification_channels_for(user_ids, kind)` - the channels each user
+      wants a kind of notification on. Every producer resolves channels
+      through it.
+    - `set_notification_preferences(preferences)` - saves the caller's matrix,
+      keeping only the cells that differ from the defaults
+
+  4. Updated Functions
+    - `queue_lecture_reminders()`, `queue_lecture_cancellation_notices()`,
+      `send_lecture_scheduled_notifications()` and `queue_daily_digests()`
+      skip students who want the kind on no channel and record the channels
+      on each row
+
+  5. Security
+    - Everyone signed in can read the defaults
+    - Users can read their own preferences and change them only through
+      `set_notification_preferences`, which only signed-in users can call
+    - Only the service role can call `notification_channels_for`, which reads
+      anyone's preferences
+*/
+
+CREATE TABLE IF NOT EXISTS notification_preference_defaults (
+  kind text NOT NULL CHECK (kind IN ('scheduled', 'reminder', 'rescheduled', 'cancelled', 'announcement', 'digest')),
+  channel text NOT NULL CHECK (channel IN ('email', 'in_app', 'push')),
+  enabled boolean NOT NULL,
+  PRIMARY KEY (kind, channel)
+);
+
+ALTER TABLE notification_preference_defaults ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view notification preference defaults"
+  ON notification_preference_defaults FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Everything about a lecture is on everywhere except push for new lectures,
+-- which would be noisy at the start of term; the digest is opt-in
+INSERT INTO notification_preference_defaults (kind, channel, enabled) VALUES
+  ('scheduled', 'email', true),
+  ('scheduled', 'in_app', true),
+  ('scheduled', 'push', false),
+  ('reminder', 'email', true),
+  ('reminder', 'in_app', true),
+  ('reminder', 'push', true),
+  ('rescheduled', 'email', true),
+  ('rescheduled', 'in_app', true),
+  ('rescheduled', 'push', true),
+  ('cancelled', 'email', true),
+  ('cancelled', 'in_app', true),
+  ('cancelled', 'push', true),
+  ('announcement', 'email', true),
+  ('announcement', 'in_app', true),
+  ('announcement', 'push', false),
+  ('digest', 'email', false),
+  ('digest', 'in_app', false),
+  ('digest', 'push', false)
+ON CONFLICT (kind, channel) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  kind text NOT NULL,
+  channel text NOT NULL,
+  enabled boolean NOT NULL,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, kind, channel),
+  FOREIGN KEY (kind, channel) REFERENCES notification_preference_defaults(kind, channel)
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences"
+  ON notification_preferences FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS channels text[] NOT NULL DEFAULT '{email,in_app,push}';
+
+-- Carry the old switches over before dropping them
+INSERT INTO notification_preferences (user_id, kind, channel, enabled)
+SELECT ep.user_id, d.kind, d.channel, false
+FROM email_preferences ep
+CROSS JOIN notification_preference_defaults d
+WHERE ep.lecture_reminders = false
+  AND d.kind IN ('scheduled', 'reminder', 'rescheduled', 'cancelled')
+ON CONFLICT (user_id, kind, channel) DO NOTHING;
+
+INSERT INTO notification_preferences (user_id, kind, channel, enabled)
+SELECT ep.user_id, 'digest', channel, true
+FROM email_preferences ep
+CROSS JOIN (VALUES ('email'), ('in_app')) AS c(channel)
+WHERE ep.daily_digest = true
+ON CONFLICT (user_id, kind, channel) DO NOTHING;
+
+DROP TRIGGER IF EXISTS email_preferences_reminder_trigger ON email_preferences;
+
+ALTER TABLE email_preferences
+  DROP COLUMN IF EXISTS lecture_reminders,
+  DROP COLUMN IF EXISTS daily_digest;
+
+-- The channels each user wants a kind of notification on
+CREATE OR REPLACE FUNCTION notification_channels_for(p_user_ids uuid[], p_kind text)
+RETURNS TABLE (user_id uuid, channels text[]) AS $$
+  SELECT
+    u.id,
+    COALESCE(
+      array_agg(d.channel ORDER BY d.channel) FILTER (WHERE COALESCE(np.enabled, d.enabled)),
+      '{}'::text[]
+    )
+  FROM unnest(p_user_ids) AS u(id)
+  JOIN notification_preference_defaults d
+    ON d.kind = CASE WHEN p_kind = 'manual' THEN 'reminder' ELSE p_kind END
+  LEFT JOIN notification_preferences np
+    ON np.user_id = u.id AND np.kind = d.kind AND np.channel = d.channel
+  GROUP BY u.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notification_channels_for(uuid[], text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION notification_channels_for(uuid[], text) TO service_role;
+
+-- Function to save the caller's preference matrix
+CREATE OR REPLACE FUNCTION set_notification_preferences(p_preferences jsonb)
+RETURNS void AS $$
+DECLARE
+  reminders_changed BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Queued reminders carry the channels they were resolved with
+  SELECT EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_preferences) AS p(kind text, channel text, enabled boolean)
+    JOIN notification_preference_defaults d ON d.kind = p.kind AND d.channel = p.channel
+    LEFT JOIN notification_preferences np
+      ON np.user_id = auth.uid() AND np.kind = p.kind AND np.channel = p.channel
+    WHERE p.kind IN ('reminder', 'digest')
+      AND p.enabled IS DISTINCT FROM COALESCE(np.enabled, d.enabled)
+  ) INTO reminders_changed;
+
+  -- Cells that match the default are stored as nothing, so they follow it
+  DELETE FROM notification_preferences np
+  USING jsonb_to_recordset(p_preferences) AS p(kind text, channel text, enabled boolean),
+    notification_preference_defaults d
+  WHERE np.user_id = auth.uid()
+    AND np.kind = p.kind
+    AND np.channel = p.channel
+    AND d.kind = p.kind
+    AND d.channel = p.channel
+    AND p.enabled = d.enabled;
+
+  INSERT INTO notification_preferences (user_id, kind, channel, enabled, updated_at)
+  SELECT auth.uid(), p.kind, p.channel, p.enabled, NOW()
+  FROM jsonb_to_recordset(p_preferences) AS p(kind text, channel text, enabled boolean)
+  JOIN notification_preference_defaults d ON d.kind = p.kind AND d.channel = p.channel
+  WHERE p.enabled IS DISTINCT FROM d.enabled
+  ON CONFLICT (user_id, kind, channel) DO UPDATE
+  SET enabled = EXCLUDED.enabled,
+      updated_at = EXCLUDED.updated_at;
+
+  IF reminders_changed THEN
+    PERFORM requeue_student_reminders(auth.uid(), 'Notification preferences changed');
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION set_notification_preferences(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_notification_preferences(jsonb) TO authenticated;
+
+-- Function to queue a student's reminders for one lecture
+CREATE OR REPLACE FUNCTION queue_lecture_reminders(lecture lectures, p_student_id uuid)
+RETURNS void AS $$
+DECLARE
+  student_record RECORD;
+  student_email TEXT;
+  student_channels TEXT[];
+  skip_day_before BOOLEAN;
+  lead_minutes INTEGER;
+BEGIN
+  SELECT 
+    p.email,
+    p.notification_email,
+    ep.notification_email as pref_email,
+    COALESCE(ep.digest_replaces_reminders, false) as digest_replaces_reminders
+  INTO student_record
+  FROM profiles p
+  LEFT JOIN email_preferences ep ON ep.user_id = p.id
+  WHERE p.id = p_student_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT channels INTO student_channels
+  FROM notification_channels_for(ARRAY[p_student_id], 'reminder');
+
+  IF COALESCE(cardinality(student_channels), 0) = 0 THEN
+    RETURN;
+  END IF;
+
+  skip_day_before := student_record.digest_replaces_reminders AND EXISTS (
+    SELECT 1 FROM notification_channels_for(ARRAY[p_student_id], 'digest')
+    WHERE cardinality(channels) > 0
+  );
+
+  -- Determine which email to use
+  student_email := COALESCE(
+    student_record.pref_email,
+    student_record.notification_email,
+    student_record.email
+  );
+
+  FOREACH lead_minutes IN ARRAY reminder_offsets_for(p_student_id)
+  LOOP
+    -- Skip lead times that have already passed
+    IF lecture.scheduled_at - make_interval(mins => lead_minutes) <= NOW() THEN
+      CONTINUE;
+    END IF;
+
+    -- The morning digest stands in for the day-before reminder
+    IF lead_minutes = 1440 AND skip_day_before THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO notifications (
+      lecture_id,
+      recipient_id,
+      email,
+      scheduled_for,
+      status,
+      kind,
+      offset_minutes,
+      channels
+    ) VALUES (
+      lecture.id,
+      p_student_id,
+      student_email,
+      lecture.scheduled_at - make_interval(mins => lead_minutes),
+      'pending',
+      'reminder',
+      lead_minutes,
+      student_channels
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_lecture_reminders(lectures, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Function to queue cancellation notices for a lecture's students
+CREATE OR REPLACE FUNCTION queue_lecture_cancellation_notices(lecture lectures)
+RETURNS void AS $$
+DECLARE
+  enrollment_record RECORD;
+BEGIN
+  FOR enrollment_record IN
+    SELECT 
+      e.student_id,
+      COALESCE(ep.notification_email, p.notification_email, p.email) as student_email,
+      nc.channels
+    FROM enrollments e
+    JOIN profiles p ON e.student_id = p.id
+    LEFT JOIN email_preferences ep ON ep.user_id = p.id
+    JOIN notification_channels_for(
+      ARRAY(SELECT student_id FROM enrollments WHERE course_id = lecture.course_id AND is_active = true),
+      'cancelled'
+    ) nc ON nc.user_id = e.student_id
+    WHERE e.course_id = lecture.course_id 
+      AND e.is_active = true
+      AND cardinality(nc.channels) > 0
+  LOOP
+    INSERT INTO notifications (
+      recipient_id,
+      lecture_id,
+      email,
+      status,
+      scheduled_for,
+      kind,
+      payload,
+      channels
+    ) VALUES (
+      enrollment_record.student_id,
+      lecture.id,
+      enrollment_record.student_email,
+      'pending',
+      NOW(),
+      'cancelled',
+      jsonb_build_object('cancellation_reason', NULLIF(TRIM(lecture.cancellation_reason), '')),
+      enrollment_record.channels
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_lecture_cancellation_notices(lectures) FROM PUBLIC, anon, authenticated;
+
+-- Function to send notifications when a lecture is scheduled
+CREATE OR REPLACE FUNCTION send_lecture_scheduled_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  enrollment_record RECORD;
+  notification_kind TEXT;
+BEGIN
+  -- A cancelled lecture gets a cancellation notice instead
+  IF NEW.is_cancelled IS TRUE THEN
+    RETURN NEW;
+  END IF;
+
+  notification_kind := CASE WHEN TG_OP = 'INSERT' THEN 'scheduled' ELSE 'rescheduled' END;
+
+  -- Get all enrolled students for this course who want this kind anywhere
+  FOR enrollment_record IN
+    SELECT 
+      e.student_id,
+      COALESCE(ep.notification_email, p.notification_email, p.email) as student_email,
+      nc.channels
+    FROM enrollments e
+    JOIN profiles p ON e.student_id = p.id
+    LEFT JOIN email_preferences ep ON ep.user_id = p.id
+    JOIN notification_channels_for(
+      ARRAY(SELECT student_id FROM enrollments WHERE course_id = NEW.course_id AND is_active = true),
+      notification_kind
+    ) nc ON nc.user_id = e.student_id
+    WHERE e.course_id = NEW.course_id 
+      AND e.is_active = true
+      AND cardinality(nc.channels) > 0
+  LOOP
+    -- Insert notification record
+    INSERT INTO notifications (
+      recipient_id,
+      lecture_id,
+      email,
+      status,
+      scheduled_for,
+      kind,
+      payload,
+      channels
+    ) VALUES (
+      enrollment_record.student_id,
+      NEW.id,
+      enrollment_record.student_email,
+      'pending',
+      NOW(),
+      notification_kind,
+      CASE
+        WHEN TG_OP = 'UPDATE' THEN jsonb_build_object('previous_scheduled_at', OLD.scheduled_at)
+        ELSE '{}'::jsonb
+      END,
+      enrollment_record.channels
+    );
+  END LOOP;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Function to queue the morning digest for every student who is due one
+CREATE OR REPLACE FUNCTION queue_daily_digests()
+RETURNS integer AS $$
+DECLARE
+  student_record RECORD;
+  send_hour INTEGER;
+  local_now TIMESTAMP;
+  due_at TIMESTAMP;
+  day_start TIMESTAMPTZ;
+  since TIMESTAMPTZ;
+  todays_lectures JSONB;
+  recent_changes JSONB;
+  queued INTEGER := 0;
+BEGIN
+  SELECT digest_hour INTO send_hour FROM institution_settings WHERE id;
+  send_hour := COALESCE(send_hour, 7);
+
+  FOR student_record IN
+    SELECT 
+      p.id,
+      COALESCE(ep.notification_email, p.notification_email, p.email) as student_email,
+      timezone_for(p.id) as tz,
+      nc.channels
+    FROM profiles p
+    LEFT JOIN email_preferences ep ON ep.user_id = p.id
+    JOIN notification_channels_for(
+      ARRAY(SELECT id FROM profiles WHERE role = 'student'),
+      'digest'
+    ) nc ON nc.user_id = p.id
+    WHERE p.role = 'student'
+      AND cardinality(nc.channels) > 0
+  LOOP
+    local_now := NOW() AT TIME ZONE student_record.tz;
+
+    -- The last local send time that has come; a late send hour's grace runs past midnight
+    due_at := date_trunc('day', local_now) + make_interval(hours => send_hour);
+    IF due_at > local_now THEN
+      due_at := due_at - INTERVAL '1 day';
+    END IF;
+
+    -- A few hours' grace lets a missed run catch up without sending late in the day
+    IF local_now >= due_at + INTERVAL '4 hours' THEN
+      CONTINUE;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM notifications
+      WHERE recipient_id = student_record.id
+        AND kind = 'digest'
+        AND payload->>'digest_date' = due_at::date::text
+    ) THEN
+      CONTINUE;
+    END IF;
+
+    day_start := date_trunc('day', due_at) AT TIME ZONE student_record.tz;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'lecture_id', l.id,
+      'title', l.title,
+      'course_title', c.title,
+      'course_code', c.course_code,
+      'scheduled_at', l.scheduled_at,
+      'location', l.location,
+      'meeting_url', l.meeting_url
+    ) ORDER BY l.scheduled_at), '[]'::jsonb)
+    INTO todays_lectures
+    FROM lectures l
+    JOIN courses c ON c.id = l.course_id
+    JOIN enrollments e ON e.course_id = l.course_id
+    WHERE e.student_id = student_record.id
+      AND e.is_active = true
+      AND l.is_cancelled IS NOT TRUE
+      AND l.scheduled_at >= day_start
+      AND l.scheduled_at < day_start + INTERVAL '1 day';
+
+    -- Changes are whatever was rescheduled or cancelled since the last digest
+    SELECT COALESCE(MAX(created_at), NOW() - INTERVAL '1 day')
+    INTO since
+    FROM notifications
+    WHERE recipient_id = student_record.id
+      AND kind = 'digest';
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'kind', n.kind,
+      'lecture_id', l.id,
+      'title', l.title,
+      'course_code', c.course_code,
+      'scheduled_at', l.scheduled_at,
+      'previous_scheduled_at', n.payload->'previous_scheduled_at',
+      'cancellation_reason', n.payload->'cancellation_reason'
+    ) ORDER BY n.created_at), '[]'::jsonb)
+    INTO recent_changes
+    FROM notifications n
+    JOIN lectures l ON l.id = n.lecture_id
+    JOIN courses c ON c.id = l.course_id
+    WHERE n.recipient_id = student_record.id
+      AND n.kind IN ('rescheduled', 'cancelled')
+      AND n.created_at > since
+      AND l.scheduled_at >= day_start;
+
+    -- Nothing to say today
+    IF jsonb_array_length(todays_lectures) = 0 AND jsonb_array_length(recent_changes) = 0 THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO notifications (
+      recipient_id,
+      email,
+      status,
+      scheduled_for,
+      kind,
+      payload,
+      channels
+    ) VALUES (
+      student_record.id,
+      student_record.student_email,
+      'pending',
+      NOW(),
+      'digest',
+      jsonb_build_object(
+        'digest_date', due_at::date,
+        'timezone', student_record.tz,
+        'lectures', todays_lectures,
+        'changes', recent_changes
+      ),
+      student_record.channels
+    )
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND THEN
+      queued := queued + 1;
+    END IF;
+  END LOOP;
+
+  RETURN queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_daily_digests() FROM PUBLIC, anon, authenticated;
+
+-- Function to recompute reminders when a student changes their lead times
+CREATE OR REPLACE FUNCTION requeue_reminders_on_preference_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR OLD.reminder_offsets IS DISTINCT FROM NEW.reminder_offsets
+    OR OLD.digest_replaces_reminders IS DISTINCT FROM NEW.digest_replaces_reminders THEN
+    PERFORM requeue_student_reminders(NEW.user_id, 'Reminder preferences changed');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER email_preferences_reminder_trigger
+  AFTER INSERT OR UPDATE OF reminder_offsets, digest_replaces_reminders
+  ON email_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION requeue_reminders_on_preference_change();
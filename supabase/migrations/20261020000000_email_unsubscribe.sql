@@ -0,0 +1,301 @@
+/*
+  # Email unsubscribe links
+
+  Notification emails had no way to opt out, so students asked lecturers to
+  stop emailing them. Every email now carries a signed, expiring link that
+  turns off that kind of email, or all email about that course, without
+  signing in.
+
+  1. New Tables
+    - `course_email_unsubscribes` - courses a user gets no email about
+      - `user_id` (uuid, references profiles)
+      - `course_id` (uuid, references courses)
+      - `created_at` (timestamptz)
+
+  2. Updated Functions
+    - `notification_channels_for(user_ids, kind, course_id)` takes the course
+      a notification is about and leaves out email for users unsubscribed
+      from it
+    - `queue_lecture_reminders()`, `queue_lecture_cancellation_notices()` and
+      `send_lecture_scheduled_notifications()` pass the lecture's course
+
+  3. New Functions
+    - `apply_email_unsubscribe(user_id, kind, course_id)` - turns off email
+      for a kind (when `course_id` is NULL) or a course, including anything
+      already queued. Called by the `unsubscribe` edge function once it has
+      checked the link's signature.
+
+  4. Security
+    - Users can see and remove their own course unsubscribes
+    - Only the service role can call `apply_email_unsubscribe` and
+      `notification_channels_for`
+*/
+
+CREATE TABLE IF NOT EXISTS course_email_unsubscribes (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  course_id uuid NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, course_id)
+);
+
+ALTER TABLE course_email_unsubscribes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own course unsubscribes"
+  ON course_email_unsubscribes FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own course unsubscribes"
+  ON course_email_unsubscribes FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP FUNCTION IF EXISTS notification_channels_for(uuid[], text);
+
+-- The channels each user wants a kind of notification on
+CREATE OR REPLACE FUNCTION notification_channels_for(p_user_ids uuid[], p_kind text, p_course_id uuid DEFAULT NULL)
+RETURNS TABLE (user_id uuid, channels text[]) AS $$
+  SELECT
+    u.id,
+    COALESCE(
+      array_agg(d.channel ORDER BY d.channel) FILTER (
+        WHERE COALESCE(np.enabled, d.enabled)
+          AND NOT (d.channel = 'email' AND ceu.user_id IS NOT NULL)
+      ),
+      '{}'::text[]
+    )
+  FROM unnest(p_user_ids) AS u(id)
+  JOIN notification_preference_defaults d
+    ON d.kind = CASE WHEN p_kind = 'manual' THEN 'reminder' ELSE p_kind END
+  LEFT JOIN notification_preferences np
+    ON np.user_id = u.id AND np.kind = d.kind AND np.channel = d.channel
+  LEFT JOIN course_email_unsubscribes ceu
+    ON ceu.user_id = u.id AND ceu.course_id = p_course_id
+  GROUP BY u.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notification_channels_for(uuid[], text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION notification_channels_for(uuid[], text, uuid) TO service_role;
+
+-- Function to turn off email for a kind or a course on behalf of a link holder
+CREATE OR REPLACE FUNCTION apply_email_unsubscribe(p_user_id uuid, p_kind text, p_course_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF p_course_id IS NULL THEN
+    INSERT INTO notification_preferences (user_id, kind, channel, enabled, updated_at)
+    VALUES (p_user_id, p_kind, 'email', false, NOW())
+    ON CONFLICT (user_id, kind, channel) DO UPDATE
+    SET enabled = false,
+        updated_at = NOW();
+
+    UPDATE notifications
+    SET channels = array_remove(channels, 'email')
+    WHERE recipient_id = p_user_id
+      AND status IN ('pending', 'failed')
+      AND (kind = p_kind OR (p_kind = 'reminder' AND kind = 'manual'));
+  ELSE
+    INSERT INTO course_email_unsubscribes (user_id, course_id)
+    VALUES (p_user_id, p_course_id)
+    ON CONFLICT (user_id, course_id) DO NOTHING;
+
+    UPDATE notifications n
+    SET channels = array_remove(n.channels, 'email')
+    FROM lectures l
+    WHERE n.lecture_id = l.id
+      AND l.course_id = p_course_id
+      AND n.recipient_id = p_user_id
+      AND n.status IN ('pending', 'failed');
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_email_unsubscribe(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Function to queue a student's reminders for one lecture
+CREATE OR REPLACE FUNCTION queue_lecture_reminders(lecture lectures, p_student_id uuid)
+RETURNS void AS $$
+DECLARE
+  student_record RECORD;
+  student_email TEXT;
+  student_channels TEXT[];
+  skip_day_before BOOLEAN;
+  lead_minutes INTEGER;
+BEGIN
+  SELECT 
+    p.email,
+    p.notification_email,
+    ep.notification_email as pref_email,
+    COALESCE(ep.digest_replaces_reminders, false) as digest_replaces_reminders
+  INTO student_record
+  FROM profiles p
+  LEFT JOIN email_preferences ep ON ep.user_id = p.id
+  WHERE p.id = p_student_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT channels INTO student_channels
+  FROM notification_channels_for(ARRAY[p_student_id], 'reminder', lecture.course_id);
+
+  IF COALESCE(cardinality(student_channels), 0) = 0 THEN
+    RETURN;
+  END IF;
+
+  skip_day_before := student_record.digest_replaces_reminders AND EXISTS (
+    SELECT 1 FROM notification_channels_for(ARRAY[p_student_id], 'digest')
+    WHERE cardinality(channels) > 0
+  );
+
+  -- Determine which email to use
+  student_email := COALESCE(
+    student_record.pref_email,
+    student_record.notification_email,
+    student_record.email
+  );
+
+  FOREACH lead_minutes IN ARRAY reminder_offsets_for(p_student_id)
+  LOOP
+    -- Skip lead times that have already passed
+    IF lecture.scheduled_at - make_interval(mins => lead_minutes) <= NOW() THEN
+      CONTINUE;
+    END IF;
+
+    -- The morning digest stands in for the day-before reminder
+    IF lead_minutes = 1440 AND skip_day_before THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO notifications (
+      lecture_id,
+      recipient_id,
+      email,
+      scheduled_for,
+      status,
+      kind,
+      offset_minutes,
+      channels
+    ) VALUES (
+      lecture.id,
+      p_student_id,
+      student_email,
+      lecture.scheduled_at - make_interval(mins => lead_minutes),
+      'pending',
+      'reminder',
+      lead_minutes,
+      student_channels
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_lecture_reminders(lectures, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Function to queue cancellation notices for a lecture's students
+CREATE OR REPLACE FUNCTION queue_lecture_cancellation_notices(lecture lectures)
+RETURNS void AS $$
+DECLARE
+  enrollment_record RECORD;
+BEGIN
+  FOR enrollment_record IN
+    SELECT 
+      e.student_id,
+      COALESCE(ep.notification_email, p.notification_email, p.email) as student_email,
+      nc.channels
+    FROM enrollments e
+    JOIN profiles p ON e.student_id = p.id
+    LEFT JOIN email_preferences ep ON ep.user_id = p.id
+    JOIN notification_channels_for(
+      ARRAY(SELECT student_id FROM enrollments WHERE course_id = lecture.course_id AND is_active = true),
+      'cancelled',
+      lecture.course_id
+    ) nc ON nc.user_id = e.student_id
+    WHERE e.course_id = lecture.course_id 
+      AND e.is_active = true
+      AND cardinality(nc.channels) > 0
+  LOOP
+    INSERT INTO notifications (
+      recipient_id,
+      lecture_id,
+      email,
+      status,
+      scheduled_for,
+      kind,
+      payload,
+      channels
+    ) VALUES (
+      enrollment_record.student_id,
+      lecture.id,
+      enrollment_record.student_email,
+      'pending',
+      NOW(),
+      'cancelled',
+      jsonb_build_object('cancellation_reason', NULLIF(TRIM(lecture.cancellation_reason), '')),
+      enrollment_record.channels
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_lecture_cancellation_notices(lectures) FROM PUBLIC, anon, authenticated;
+
+-- Function to send notifications when a lecture is scheduled
+CREATE OR REPLACE FUNCTION send_lecture_scheduled_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  enrollment_record RECORD;
+  notification_kind TEXT;
+BEGIN
+  -- A cancelled lecture gets a cancellation notice instead
+  IF NEW.is_cancelled IS TRUE THEN
+    RETURN NEW;
+  END IF;
+
+  notification_kind := CASE WHEN TG_OP = 'INSERT' THEN 'scheduled' ELSE 'rescheduled' END;
+
+  -- Get all enrolled students for this course who want this kind anywhere
+  FOR enrollment_record IN
+    SELECT 
+      e.student_id,
+      COALESCE(ep.notification_email, p.notification_email, p.email) as student_email,
+      nc.channels
+    FROM enrollments e
+    JOIN profiles p ON e.student_id = p.id
+    LEFT JOIN email_preferences ep ON ep.user_id = p.id
+    JOIN notification_channels_for(
+      ARRAY(SELECT student_id FROM enrollments WHERE course_id = NEW.course_id AND is_active = true),
+      notification_kind,
+      NEW.course_id
+    ) nc ON nc.user_id = e.student_id
+    WHERE e.course_id = NEW.course_id 
+      AND e.is_active = true
+      AND cardinality(nc.channels) > 0
+  LOOP
+    -- Insert notification record
+    INSERT INTO notifications (
+      recipient_id,
+      lecture_id,
+      email,
+      status,
+      scheduled_for,
+      kind,
+      payload,
+      channels
+    ) VALUES (
+      enrollment_record.student_id,
+      NEW.id,
+      enrollment_record.student_email,
+      'pending',
+      NOW(),
+      notification_kind,
+      CASE
+        WHEN TG_OP = 'UPDATE' THEN jsonb_build_object('previous_scheduled_at', OLD.scheduled_at)
+        ELSE '{}'::jsonb
+      END,
+      enrollment_record.channels
+    );
+  END LOOP;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
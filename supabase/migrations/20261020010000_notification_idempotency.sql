@@ -0,0 +1,313 @@
+/*
+  # Idempotent notification producers
+
+  The lecture triggers, `send-lecture-reminders` and the manual send on the
+  lecture card could each queue the same notification for the same student,
+  so students got several copies. Every notification now carries a key that
+  identifies what it is about, and a live row's key is unique.
+
+  1. Changes
+    - `notifications.idempotency_key` - unique while the row is live. Built from
+      the kind, lecture and recipient plus:
+        - reminders: the lead time and the lecture time it counts down to
+        - reschedule notices: the new lecture time
+        - cancellation notices: when the lecture was cancelled
+        - manual reminders: the send they belong to
+        - digests: the recipient's local date
+    - Superseding or cancelling a row releases its key (the row id is appended)
+      so the notification can be queued again
+    - `notifications.batch_id` (uuid) - the send a manual notification
+      belongs to; older manual rows have none and are keyed on their own id
+    - Existing duplicates that have not gone out yet are superseded
+
+  2. New Functions
+    - `notification_idempotency_key(notifications)` - the key for a row
+    - `set_notification_idempotency_key()` - fills in the key on insert and
+      releases it when a row is withdrawn
+
+  3. Updated Functions
+    - `queue_lecture_reminders`, `queue_lecture_cancellation_notices` and
+      `send_lecture_scheduled_notifications` skip notifications that already exist
+*/
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS idempotency_key text,
+  ADD COLUMN IF NOT EXISTS batch_id uuid;
+
+CREATE OR REPLACE FUNCTION notification_idempotency_key(n notifications)
+RETURNS text AS $$
+DECLARE
+  lecture_record RECORD;
+BEGIN
+  SELECT scheduled_at, cancelled_at INTO lecture_record
+  FROM lectures
+  WHERE id = n.lecture_id;
+
+  RETURN CASE n.kind
+    WHEN 'scheduled' THEN
+      concat_ws(':', n.kind, n.lecture_id, n.recipient_id)
+    WHEN 'rescheduled' THEN
+      concat_ws(':', n.kind, n.lecture_id, n.recipient_id,
+        extract(epoch FROM lecture_record.scheduled_at)::bigint)
+    WHEN 'cancelled' THEN
+      concat_ws(':', n.kind, n.lecture_id, n.recipient_id,
+        extract(epoch FROM COALESCE(lecture_record.cancelled_at, n.scheduled_for))::bigint)
+    -- A reminder is due its lead time before the lecture, so together they give the lecture time
+    WHEN 'reminder' THEN
+      concat_ws(':', n.kind, n.lecture_id, n.recipient_id, n.offset_minutes,
+        extract(epoch FROM n.scheduled_for + make_interval(mins => COALESCE(n.offset_minutes, 0)))::bigint)
+    -- Every manual send is its own batch, even two in the same minute
+    WHEN 'manual' THEN
+      concat_ws(':', n.kind, n.lecture_id, n.recipient_id, COALESCE(n.batch_id, n.id))
+    WHEN 'digest' THEN
+      concat_ws(':', n.kind, n.recipient_id, n.payload->>'digest_date')
+  END;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notification_idempotency_key(notifications) FROM PUBLIC, anon, authenticated;
+
+-- Older rows: keep the first copy of each notification, preferring one that went out
+WITH keyed AS (
+  SELECT
+    n.id,
+    notification_idempotency_key(n) AS key,
+    n.status IN ('superseded', 'cancelled') AS withdrawn,
+    row_number() OVER (
+      PARTITION BY notification_idempotency_key(n), n.status IN ('superseded', 'cancelled')
+      ORDER BY (n.status = 'sent') DESC, n.created_at, n.id
+    ) AS copy
+  FROM notifications n
+)
+UPDATE notifications n
+SET status = CASE
+      WHEN keyed.copy > 1 AND n.status IN ('pending', 'failed') THEN 'superseded'
+      ELSE n.status
+    END,
+    status_reason = CASE
+      WHEN keyed.copy > 1 AND n.status IN ('pending', 'failed') THEN 'Duplicate notification'
+      ELSE n.status_reason
+    END,
+    idempotency_key = CASE
+      WHEN keyed.withdrawn OR keyed.copy > 1 THEN keyed.key || '#' || n.id
+      ELSE keyed.key
+    END
+FROM keyed
+WHERE keyed.id = n.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_idempotency_key
+  ON notifications(idempotency_key);
+
+CREATE OR REPLACE FUNCTION set_notification_idempotency_key()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.idempotency_key := COALESCE(NEW.idempotency_key, notification_idempotency_key(NEW));
+  -- A withdrawn row no longer stands in the way of queueing it again
+  ELSIF NEW.status IN ('superseded', 'cancelled')
+    AND OLD.status NOT IN ('superseded', 'cancelled')
+    AND NEW.idempotency_key NOT LIKE '%#%' THEN
+    NEW.idempotency_key := NEW.idempotency_key || '#' || NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notification_idempotency_key_trigger ON notifications;
+CREATE TRIGGER notification_idempotency_key_trigger
+  BEFORE INSERT OR UPDATE OF status ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION set_notification_idempotency_key();
+
+-- Function to queue a student's reminders for one lecture
+CREATE OR REPLACE FUNCTION queue_lecture_reminders(lecture lectures, p_student_id uuid)
+RETURNS void AS $$
+DECLARE
+  student_record RECORD;
+  student_email TEXT;
+  student_channels TEXT[];
+  skip_day_before BOOLEAN;
+  lead_minutes INTEGER;
+BEGIN
+  SELECT
+    p.email,
+    p.notification_email,
+    ep.notification_email as pref_email,
+    COALESCE(ep.digest_replaces_reminders, false) as digest_replaces_reminders
+  INTO student_record
+  FROM profiles p
+  LEFT JOIN email_preferences ep ON ep.user_id = p.id
+  WHERE p.id = p_student_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT channels INTO student_channels
+  FROM notification_channels_for(ARRAY[p_student_id], 'reminder', lecture.course_id);
+
+  IF COALESCE(cardinality(student_channels), 0) = 0 THEN
+    RETURN;
+  END IF;
+
+  skip_day_before := student_record.digest_replaces_reminders AND EXISTS (
+    SELECT 1 FROM notification_channels_for(ARRAY[p_student_id], 'digest')
+    WHERE cardinality(channels) > 0
+  );
+
+  -- Determine which email to use
+  student_email := COALESCE(
+    student_record.pref_email,
+    student_record.notification_email,
+    student_record.email
+  );
+
+  FOREACH lead_minutes IN ARRAY reminder_offsets_for(p_student_id)
+  LOOP
+    -- Skip lead times that have already passed
+    IF lecture.scheduled_at - make_interval(mins => lead_minutes) <= NOW() THEN
+      CONTINUE;
+    END IF;
+
+    -- The morning digest stands in for the day-before reminder
+    IF lead_minutes = 1440 AND skip_day_before THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO notifications (
+      lecture_id,
+      recipient_id,
+      email,
+      scheduled_for,
+      status,
+      kind,
+      offset_minutes,
+      channels
+    ) VALUES (
+      lecture.id,
+      p_student_id,
+      student_email,
+      lecture.scheduled_at - make_interval(mins => lead_minutes),
+      'pending',
+      'reminder',
+      lead_minutes,
+      student_channels
+    )
+    ON CONFLICT (idempotency_key) DO NOTHING;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_lecture_reminders(lectures, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Function to queue cancellation notices for a lecture's students
+CREATE OR REPLACE FUNCTION queue_lecture_cancellation_notices(lecture lectures)
+RETURNS void AS $$
+DECLARE
+  enrollment_record RECORD;
+BEGIN
+  FOR enrollment_record IN
+    SELECT
+      e.student_id,
+      COALESCE(ep.notification_email, p.notification_email, p.email) as student_email,
+      nc.channels
+    FROM enrollments e
+    JOIN profiles p ON e.student_id = p.id
+    LEFT JOIN email_preferences ep ON ep.user_id = p.id
+    JOIN notification_channels_for(
+      ARRAY(SELECT student_id FROM enrollments WHERE course_id = lecture.course_id AND is_active = true),
+      'cancelled',
+      lecture.course_id
+    ) nc ON nc.user_id = e.student_id
+    WHERE e.course_id = lecture.course_id
+      AND e.is_active = true
+      AND cardinality(nc.channels) > 0
+  LOOP
+    INSERT INTO notifications (
+      recipient_id,
+      lecture_id,
+      email,
+      status,
+      scheduled_for,
+      kind,
+      payload,
+      channels
+    ) VALUES (
+      enrollment_record.student_id,
+      lecture.id,
+      enrollment_record.student_email,
+      'pending',
+      NOW(),
+      'cancelled',
+      jsonb_build_object('cancellation_reason', NULLIF(TRIM(lecture.cancellation_reason), '')),
+      enrollment_record.channels
+    )
+    ON CONFLICT (idempotency_key) DO NOTHING;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_lecture_cancellation_notices(lectures) FROM PUBLIC, anon, authenticated;
+
+-- Function to send notifications when a lecture is scheduled
+CREATE OR REPLACE FUNCTION send_lecture_scheduled_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  enrollment_record RECORD;
+  notification_kind TEXT;
+BEGIN
+  -- A cancelled lecture gets a cancellation notice instead
+  IF NEW.is_cancelled IS TRUE THEN
+    RETURN NEW;
+  END IF;
+
+  notification_kind := CASE WHEN TG_OP = 'INSERT' THEN 'scheduled' ELSE 'rescheduled' END;
+
+  -- Get all enrolled students for this course who want this kind anywhere
+  FOR enrollment_record IN
+    SELECT
+      e.student_id,
+      COALESCE(ep.notification_email, p.notification_email, p.email) as student_email,
+      nc.channels
+    FROM enrollments e
+    JOIN profiles p ON e.student_id = p.id
+    LEFT JOIN email_preferences ep ON ep.user_id = p.id
+    JOIN notification_channels_for(
+      ARRAY(SELECT student_id FROM enrollments WHERE course_id = NEW.course_id AND is_active = true),
+      notification_kind,
+      NEW.course_id
+    ) nc ON nc.user_id = e.student_id
+    WHERE e.course_id = NEW.course_id
+      AND e.is_active = true
+      AND cardinality(nc.channels) > 0
+  LOOP
+    -- Insert notification record
+    INSERT INTO notifications (
+      recipient_id,
+      lecture_id,
+      email,
+      status,
+      scheduled_for,
+      kind,
+      payload,
+      channels
+    ) VALUES (
+      enrollment_record.student_id,
+      NEW.id,
+      enrollment_record.student_email,
+      'pending',
+      NOW(),
+      notification_kind,
+      CASE
+        WHEN TG_OP = 'UPDATE' THEN jsonb_build_object('previous_scheduled_at', OLD.scheduled_at)
+        ELSE '{}'::jsonb
+      END,
+      enrollment_record.channels
+    )
+    ON CONFLICT (idempotency_key) DO NOTHING;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,91 @@
+/*
+  # Notification delivery console
+
+  Admins could only see delivery status and provider errors in the database.
+  The admin dashboard now lists deliveries, re-queues failed ones and charts
+  the delivery rate.
+
+  1. New Functions
+    - `requeue_notifications(ids)` - puts failed and dead notifications back in
+      the queue with a fresh set of attempts
+    - `notification_delivery_stats(from, to, timezone, course)` - notifications
+      per day in the viewer's timezone by outcome, for the delivery chart
+
+  2. Security
+    - Admins can read every notification
+    - Both functions refuse anyone who is not an admin
+*/
+
+CREATE POLICY "Admins can view all notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE INDEX IF NOT EXISTS idx_notifications_status_scheduled
+  ON notifications(status, scheduled_for DESC);
+
+CREATE OR REPLACE FUNCTION requeue_notifications(p_ids uuid[])
+RETURNS integer AS $$
+DECLARE
+  requeued INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can re-queue notifications';
+  END IF;
+
+  -- Due immediately; the processor picks them up on its next run
+  UPDATE notifications
+  SET status = 'pending',
+      status_reason = 'Re-queued by an admin',
+      attempts = 0,
+      next_attempt_at = NULL,
+      claimed_by = NULL,
+      locked_until = NULL
+  WHERE id = ANY(p_ids)
+    AND status IN ('failed', 'dead');
+
+  GET DIAGNOSTICS requeued = ROW_COUNT;
+  RETURN requeued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION requeue_notifications(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION requeue_notifications(uuid[]) TO authenticated;
+
+CREATE OR REPLACE FUNCTION notification_delivery_stats(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_timezone text DEFAULT 'UTC',
+  p_course_id uuid DEFAULT NULL
+)
+RETURNS TABLE(day date, sent bigint, failed bigint, dead bigint, pending bigint) AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view delivery statistics';
+  END IF;
+
+  IF NOT is_valid_timezone(p_timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone: %', p_timezone;
+  END IF;
+
+  -- Withdrawn notifications were never meant to go out, so they don't count either way
+  RETURN QUERY
+  SELECT
+    (n.scheduled_for AT TIME ZONE p_timezone)::date,
+    COUNT(*) FILTER (WHERE n.status = 'sent'),
+    COUNT(*) FILTER (WHERE n.status = 'failed'),
+    COUNT(*) FILTER (WHERE n.status = 'dead'),
+    COUNT(*) FILTER (WHERE n.status IN ('pending', 'processing'))
+  FROM notifications n
+  LEFT JOIN lectures l ON l.id = n.lecture_id
+  WHERE n.scheduled_for >= p_from
+    AND n.scheduled_for < p_to
+    AND n.status NOT IN ('superseded', 'cancelled')
+    AND (p_course_id IS NULL OR l.course_id = p_course_id)
+  GROUP BY 1
+  ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notification_delivery_stats(timestamptz, timestamptz, text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION notification_delivery_stats(timestamptz, timestamptz, text, uuid) TO authenticated;
@@ -0,0 +1,136 @@
+/*
+  # Email bounce and complaint suppression
+
+  A bounced `notification_email` kept receiving every notification. The
+  `email-events` webhook now records bounces and complaints, and addresses on
+  the list are no longer emailed.
+
+  1. New Tables
+    - `suppressed_addresses` - addresses that hard-bounced or complained,
+      lower-cased, with the latest provider detail
+
+  2. Changes
+    - `profiles.email_suppressed_at` / `email_suppression_reason` - set while
+      the address the user is emailed at is suppressed, so the app can ask them
+      to change it. Cleared when they switch to an address that isn't.
+
+  3. New Functions
+    - `refresh_email_suppression(user)` - recomputes a user's flag
+    - `record_email_suppression(email, reason, detail, message_id)` - adds or
+      updates an address and flags every user emailed at it
+
+  4. Security
+    - RLS on `suppressed_addresses`; admins can read it
+    - Only the service role records suppressions
+*/
+
+CREATE TABLE IF NOT EXISTS suppressed_addresses (
+  email text PRIMARY KEY CHECK (email = lower(email)),
+  reason text NOT NULL CHECK (reason IN ('bounce', 'complaint')),
+  detail text,
+  provider_message_id text,
+  event_count integer NOT NULL DEFAULT 1,
+  first_seen_at timestamptz NOT NULL DEFAULT now(),
+  last_seen_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE suppressed_addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view suppressed addresses"
+  ON suppressed_addresses FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS email_suppressed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS email_suppression_reason text;
+
+CREATE OR REPLACE FUNCTION refresh_email_suppression(p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+  address TEXT;
+  suppression RECORD;
+BEGIN
+  SELECT lower(COALESCE(ep.notification_email, p.notification_email, p.email))
+  INTO address
+  FROM profiles p
+  LEFT JOIN email_preferences ep ON ep.user_id = p.id
+  WHERE p.id = p_user_id;
+
+  -- No row leaves both fields null, which clears the flag
+  SELECT reason, last_seen_at INTO suppression
+  FROM suppressed_addresses
+  WHERE email = address;
+
+  UPDATE profiles
+  SET email_suppressed_at = suppression.last_seen_at,
+      email_suppression_reason = suppression.reason
+  WHERE id = p_user_id
+    AND email_suppressed_at IS DISTINCT FROM suppression.last_seen_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION record_email_suppression(
+  p_email text,
+  p_reason text,
+  p_detail text DEFAULT NULL,
+  p_provider_message_id text DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  address TEXT := lower(trim(p_email));
+  user_record RECORD;
+  flagged INTEGER := 0;
+BEGIN
+  INSERT INTO suppressed_addresses (email, reason, detail, provider_message_id)
+  VALUES (address, p_reason, p_detail, p_provider_message_id)
+  ON CONFLICT (email) DO UPDATE
+  SET -- A complaint outranks a bounce; never downgrade it
+      reason = CASE WHEN suppressed_addresses.reason = 'complaint' THEN 'complaint' ELSE EXCLUDED.reason END,
+      detail = COALESCE(EXCLUDED.detail, suppressed_addresses.detail),
+      provider_message_id = COALESCE(EXCLUDED.provider_message_id, suppressed_addresses.provider_message_id),
+      event_count = suppressed_addresses.event_count + 1,
+      last_seen_at = NOW();
+
+  FOR user_record IN
+    SELECT p.id
+    FROM profiles p
+    LEFT JOIN email_preferences ep ON ep.user_id = p.id
+    WHERE lower(COALESCE(ep.notification_email, p.notification_email, p.email)) = address
+  LOOP
+    PERFORM refresh_email_suppression(user_record.id);
+    flagged := flagged + 1;
+  END LOOP;
+
+  RETURN flagged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION refresh_email_suppression(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_email_suppression(text, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Changing where you're emailed clears the flag, unless the new address is suppressed too
+CREATE OR REPLACE FUNCTION refresh_email_suppression_on_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'profiles' THEN
+    PERFORM refresh_email_suppression(NEW.id);
+  ELSE
+    PERFORM refresh_email_suppression(NEW.user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS email_preferences_suppression_trigger ON email_preferences;
+CREATE TRIGGER email_preferences_suppression_trigger
+  AFTER INSERT OR UPDATE OF notification_email ON email_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_email_suppression_on_change();
+
+DROP TRIGGER IF EXISTS profiles_suppression_trigger ON profiles;
+CREATE TRIGGER profiles_suppression_trigger
+  AFTER UPDATE OF email, notification_email ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_email_suppression_on_change();
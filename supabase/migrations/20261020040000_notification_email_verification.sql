@@ -0,0 +1,149 @@
+/*
+  # Verified notification email addresses
+
+  `email_preferences.notification_email` took any string, so a typo silently
+  stopped every email. A new address is now held as pending until the user
+  enters the code the `verify-email` edge function sends to it; notifications
+  keep going to the last verified address in the meantime.
+
+  1. New Tables
+    - `email_verifications` - the pending code for a user's new address.
+      Only the `verify-email` edge function reads or writes it.
+      - `user_id` (uuid, primary key, references profiles)
+      - `email` (text) - the address the code was sent to
+      - `code_hash` (text) - SHA-256 of the code; the code itself is never stored
+      - `attempts` (integer) - wrong guesses so far
+      - `expires_at`, `created_at` (timestamptz)
+
+  2. Changes
+    - `email_preferences.pending_notification_email` - the address waiting for
+      its code, shown in the app
+    - `email_preferences.notification_email_verified_at` - when the current
+      address was confirmed
+    - Changing the address moves notifications still in the queue to it.
+      Clearing it falls back to the profile's address.
+
+  3. Security
+    - Users can only set `notification_email` to an address already on their
+      profile, or clear it; anything else goes through the edge function. Only
+      the service role can set the pending address and verification time.
+    - The profile's own addresses are guarded too, since they are used when
+      there is no preference: users can't change `profiles.email`, and can
+      only clear `profiles.notification_email` or set it to `profiles.email`
+    - `email_verifications` has RLS enabled and no policies
+*/
+
+CREATE TABLE IF NOT EXISTS email_verifications (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  code_hash text NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE email_verifications ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE email_preferences
+  ADD COLUMN IF NOT EXISTS pending_notification_email text,
+  ADD COLUMN IF NOT EXISTS notification_email_verified_at timestamptz;
+
+CREATE OR REPLACE FUNCTION guard_notification_email()
+RETURNS TRIGGER AS $$
+DECLARE
+  profile_record RECORD;
+BEGIN
+  -- The verify-email edge function sets the address once the code checks out
+  IF COALESCE(auth.role(), '') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.pending_notification_email := OLD.pending_notification_email;
+    NEW.notification_email_verified_at := OLD.notification_email_verified_at;
+  ELSE
+    NEW.pending_notification_email := NULL;
+    NEW.notification_email_verified_at := NULL;
+  END IF;
+
+  -- Going back to an address the account already has needs no code, and neither does
+  -- clearing it, which falls back to that address
+  SELECT email, notification_email INTO profile_record
+  FROM profiles
+  WHERE id = NEW.user_id;
+
+  IF NEW.notification_email IS NULL
+    OR lower(NEW.notification_email) IN (lower(profile_record.email), lower(profile_record.notification_email)) THEN
+    NEW.notification_email_verified_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.notification_email := OLD.notification_email;
+  ELSE
+    NEW.notification_email := COALESCE(profile_record.notification_email, profile_record.email);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_notification_email_trigger ON email_preferences;
+CREATE TRIGGER guard_notification_email_trigger
+  BEFORE INSERT OR UPDATE ON email_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_notification_email();
+
+-- Without a preference the profile's addresses are used, so they can't skip verification either
+CREATE OR REPLACE FUNCTION guard_profile_email()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  -- The account address comes from sign-up, not the profile form
+  NEW.email := OLD.email;
+
+  IF NEW.notification_email IS NOT NULL
+    AND lower(NEW.notification_email) <> lower(NEW.email)
+    AND lower(NEW.notification_email) IS DISTINCT FROM lower(OLD.notification_email) THEN
+    NEW.notification_email := OLD.notification_email;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_profile_email_trigger ON profiles;
+CREATE TRIGGER guard_profile_email_trigger
+  BEFORE UPDATE OF email, notification_email ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_profile_email();
+
+-- Notifications still in the queue go to the address as it is when they're sent
+CREATE OR REPLACE FUNCTION repoint_queued_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  address TEXT;
+BEGIN
+  SELECT COALESCE(NEW.notification_email, p.notification_email, p.email) INTO address
+  FROM profiles p
+  WHERE p.id = NEW.user_id;
+
+  UPDATE notifications
+  SET email = address
+  WHERE recipient_id = NEW.user_id
+    AND status IN ('pending', 'failed')
+    AND email IS DISTINCT FROM address;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS repoint_queued_notifications_trigger ON email_preferences;
+CREATE TRIGGER repoint_queued_notifications_trigger
+  AFTER UPDATE OF notification_email ON email_preferences
+  FOR EACH ROW
+  WHEN (NEW.notification_email IS DISTINCT FROM OLD.notification_email)
+  EXECUTE FUNCTION repoint_queued_notifications();
@@ -0,0 +1,51 @@
+/*
+  # Queue manual reminders from the server
+
+  "Send Reminder" built the roster's notifications in the lecturer's browser,
+  so closing the tab part way through left students un-notified. The
+  `queue-lecture-reminder` edge function now checks the caller owns the
+  course and queues the whole roster in one insert, tagged with a batch id
+  the lecture card follows to show progress.
+
+  1. Changes
+    - Index on `notifications.batch_id`, which the idempotency migration
+      added to key manual notifications
+
+  2. New Functions
+    - `notification_batch_progress(batch_id)` - notifications in a batch by
+      status
+
+  3. Security
+    - Only the lecturer who owns the batch's course, or an admin, can read
+      its progress. Lecturers still can't read the notifications themselves.
+    - Only signed-in users can call `notification_batch_progress`
+*/
+
+CREATE INDEX IF NOT EXISTS idx_notifications_batch
+  ON notifications(batch_id)
+  WHERE batch_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION notification_batch_progress(p_batch_id uuid)
+RETURNS TABLE (status text, total bigint) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM notifications n
+    JOIN lectures l ON l.id = n.lecture_id
+    JOIN courses c ON c.id = l.course_id
+    WHERE n.batch_id = p_batch_id
+      AND c.lecturer_id = auth.uid()
+  ) AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only the course lecturer can view this send';
+  END IF;
+
+  RETURN QUERY
+  SELECT n.status::text, COUNT(*)
+  FROM notifications n
+  WHERE n.batch_id = p_batch_id
+  GROUP BY n.status;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notification_batch_progress(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION notification_batch_progress(uuid) TO authenticated;
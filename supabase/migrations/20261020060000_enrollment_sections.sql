@@ -0,0 +1,73 @@
+/*
+  # Enrollment sections
+
+  Lecturers want to remind one group of a course, such as a lab section,
+  without emailing the whole roster. Lecturers and admins assign sections
+  from the course's roster, and the compose dialog on the lecture card
+  lists the sections of a course's active enrollments.
+
+  1. Changes
+    - `enrollments.section` (text, nullable) - the group a student attends,
+      e.g. "A" or "Lab 2"; students without one are only reached when the
+      whole course is reminded
+
+  2. New Functions
+    - `course_roster(course_id)` - the course's active enrollments with each
+      student's name, email and section
+    - `set_enrollment_section(enrollment_id, section)` - assigns a student's
+      section; a blank section clears it
+
+  3. Security
+    - Only the course's lecturer or an admin can read its roster or assign
+      sections. Lecturers still can't read enrollments or profiles directly.
+*/
+
+ALTER TABLE enrollments
+  ADD COLUMN IF NOT EXISTS section text;
+
+CREATE INDEX IF NOT EXISTS idx_enrollments_course_section
+  ON enrollments(course_id, section)
+  WHERE section IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION course_roster(p_course_id uuid)
+RETURNS TABLE (enrollment_id uuid, student_id uuid, full_name text, email text, section text) AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM courses WHERE id = p_course_id AND lecturer_id = auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only the course lecturer can view its roster';
+  END IF;
+
+  RETURN QUERY
+  SELECT e.id, p.id, p.full_name, p.email, e.section
+  FROM enrollments e
+  JOIN profiles p ON p.id = e.student_id
+  WHERE e.course_id = p_course_id
+    AND e.is_active = true
+  ORDER BY p.full_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION course_roster(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION course_roster(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION set_enrollment_section(p_enrollment_id uuid, p_section text)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM enrollments e
+    JOIN courses c ON c.id = e.course_id
+    WHERE e.id = p_enrollment_id
+      AND c.lecturer_id = auth.uid()
+  ) AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only the course lecturer can assign sections';
+  END IF;
+
+  UPDATE enrollments
+  SET section = NULLIF(btrim(p_section), '')
+  WHERE id = p_enrollment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION set_enrollment_section(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_enrollment_section(uuid, text) TO authenticated;
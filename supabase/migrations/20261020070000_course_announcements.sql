@@ -0,0 +1,323 @@
+/*
+  # Course announcements
+
+  Lecturers could only reach students through lecture reminders. They can
+  now post an announcement to one or more of their courses, pin it, and
+  publish it now or at a set time. Each enrolled student is sent an
+  `announcement` notification through the queue, due at the publish time,
+  and sees the announcement on their dashboard once it is published.
+
+  1. New Tables
+    - `announcements`
+      - `id` (uuid, primary key)
+      - `author_id` (uuid, references profiles)
+      - `title`, `body` (text)
+      - `is_pinned` (boolean) - listed before the others
+      - `publish_at` (timestamptz) - when students see it and are notified
+      - `created_at` (timestamptz)
+    - `announcement_courses` - the courses an announcement is posted to
+      - `announcement_id` (uuid, references announcements)
+      - `course_id` (uuid, references courses)
+
+  2. Changes
+    - `notifications.kind`, `notification_templates.kind` and
+      `email_preferences.sms_kinds` allow `announcement`
+    - `notifications.announcement_id` - the announcement a notification is
+      about. Deleting the announcement deletes its notifications.
+    - Announcement notifications carry the text and course in `payload`
+    - The idempotency key for an announcement is the announcement and
+      recipient
+    - Unsubscribing from a course's emails also covers its announcements
+
+  3. New Functions
+    - `publish_announcement(title, body, course_ids, is_pinned, publish_at)` -
+      creates the announcement and queues its notifications
+
+  4. Security
+    - Only the lecturer of every course posted to, or an admin, can publish;
+      anonymous callers cannot run `publish_announcement` at all
+    - Authors can pin, unpin and delete their own announcements
+    - Students see published announcements for courses they're enrolled in
+*/
+
+CREATE TABLE IF NOT EXISTS announcements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  author_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (length(trim(title)) > 0),
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  is_pinned boolean NOT NULL DEFAULT false,
+  publish_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS announcement_courses (
+  announcement_id uuid NOT NULL REFERENCES announcements(id) ON DELETE CASCADE,
+  course_id uuid NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+  PRIMARY KEY (announcement_id, course_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_announcements_author ON announcements(author_id, publish_at DESC);
+CREATE INDEX IF NOT EXISTS idx_announcement_courses_course ON announcement_courses(course_id);
+
+ALTER TABLE announcements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE announcement_courses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authors can view own announcements"
+  ON announcements FOR SELECT
+  TO authenticated
+  USING (author_id = auth.uid());
+
+CREATE POLICY "Students can view published announcements for their courses"
+  ON announcements FOR SELECT
+  TO authenticated
+  USING (
+    publish_at <= now()
+    AND EXISTS (
+      SELECT 1
+      FROM announcement_courses ac
+      JOIN enrollments e ON e.course_id = ac.course_id
+      WHERE ac.announcement_id = announcements.id
+        AND e.student_id = auth.uid()
+        AND e.is_active = true
+    )
+  );
+
+CREATE POLICY "Admins can view all announcements"
+  ON announcements FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Authors can update own announcements"
+  ON announcements FOR UPDATE
+  TO authenticated
+  USING (author_id = auth.uid())
+  WITH CHECK (author_id = auth.uid());
+
+CREATE POLICY "Authors can delete own announcements"
+  ON announcements FOR DELETE
+  TO authenticated
+  USING (author_id = auth.uid());
+
+-- Checked against the course rather than the announcement, whose own policy reads this table
+CREATE POLICY "Lecturers, students and admins can view announcement courses"
+  ON announcement_courses FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM courses c WHERE c.id = course_id AND c.lecturer_id = auth.uid())
+    OR EXISTS (
+      SELECT 1
+      FROM enrollments e
+      WHERE e.course_id = announcement_courses.course_id
+        AND e.student_id = auth.uid()
+        AND e.is_active = true
+    )
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS announcement_id uuid REFERENCES announcements(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_announcement
+  ON notifications(announcement_id)
+  WHERE announcement_id IS NOT NULL;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_kind_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_kind_check
+  CHECK (kind IN ('scheduled', 'rescheduled', 'reminder', 'cancelled', 'manual', 'digest', 'announcement'));
+
+ALTER TABLE notification_templates DROP CONSTRAINT IF EXISTS notification_templates_kind_check;
+ALTER TABLE notification_templates ADD CONSTRAINT notification_templates_kind_check
+  CHECK (kind IN ('scheduled', 'rescheduled', 'reminder', 'cancelled', 'manual', 'digest', 'announcement'));
+
+ALTER TABLE email_preferences DROP CONSTRAINT IF EXISTS email_preferences_sms_kinds_check;
+ALTER TABLE email_preferences ADD CONSTRAINT email_preferences_sms_kinds_check
+  CHECK (sms_kinds <@ ARRAY['scheduled', 'rescheduled', 'reminder', 'cancelled', 'manual', 'announcement']);
+
+INSERT INTO notification_templates (kind, locale, channel, subject, body) VALUES
+(
+  'announcement',
+  'en',
+  'email',
+  '{{course_code}}: {{announcement_title}}',
+  E'Hi {{recipient_name}},\n\n{{author_name}} posted an announcement for {{course_title}} ({{course_code}}).\n\n{{announcement_title}}\n\n{{announcement_body}}'
+),
+(
+  'announcement',
+  'en',
+  'sms',
+  '',
+  '{{course_code}}: {{announcement_title}}. {{announcement_body}}'
+)
+ON CONFLICT (kind, locale, channel) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION notification_idempotency_key(n notifications)
+RETURNS text AS $$
+DECLARE
+  lecture_record RECORD;
+BEGIN
+  SELECT scheduled_at, cancelled_at INTO lecture_record
+  FROM lectures
+  WHERE id = n.lecture_id;
+
+  RETURN CASE n.kind
+    WHEN 'scheduled' THEN
+      concat_ws(':', n.kind, n.lecture_id, n.recipient_id)
+    WHEN 'rescheduled' THEN
+      concat_ws(':', n.kind, n.lecture_id, n.recipient_id,
+        extract(epoch FROM lecture_record.scheduled_at)::bigint)
+    WHEN 'cancelled' THEN
+      concat_ws(':', n.kind, n.lecture_id, n.recipient_id,
+        extract(epoch FROM COALESCE(lecture_record.cancelled_at, n.scheduled_for))::bigint)
+    -- A reminder is due its lead time before the lecture, so together they give the lecture time
+    WHEN 'reminder' THEN
+      concat_ws(':', n.kind, n.lecture_id, n.recipient_id, n.offset_minutes,
+        extract(epoch FROM n.scheduled_for + make_interval(mins => COALESCE(n.offset_minutes, 0)))::bigint)
+    -- Every manual send is its own batch, even two in the same minute
+    WHEN 'manual' THEN
+      concat_ws(':', n.kind, n.lecture_id, n.recipient_id, COALESCE(n.batch_id, n.id))
+    WHEN 'digest' THEN
+      concat_ws(':', n.kind, n.recipient_id, n.payload->>'digest_date')
+    WHEN 'announcement' THEN
+      concat_ws(':', n.kind, n.announcement_id, n.recipient_id)
+  END;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notification_idempotency_key(notifications) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION publish_announcement(
+  p_title text,
+  p_body text,
+  p_course_ids uuid[],
+  p_is_pinned boolean DEFAULT false,
+  p_publish_at timestamptz DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  new_announcement_id UUID;
+  publish_time TIMESTAMPTZ;
+  author_name TEXT;
+  course_record RECORD;
+BEGIN
+  IF cardinality(COALESCE(p_course_ids, '{}')) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one course';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(p_course_ids) AS requested(id)
+    LEFT JOIN courses c ON c.id = requested.id
+    WHERE c.lecturer_id IS DISTINCT FROM auth.uid()
+  ) AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'You can only post announcements to your own courses';
+  END IF;
+
+  -- A time in the past means now
+  publish_time := GREATEST(COALESCE(p_publish_at, NOW()), NOW());
+
+  INSERT INTO announcements (author_id, title, body, is_pinned, publish_at)
+  VALUES (auth.uid(), trim(p_title), trim(p_body), COALESCE(p_is_pinned, false), publish_time)
+  RETURNING id INTO new_announcement_id;
+
+  INSERT INTO announcement_courses (announcement_id, course_id)
+  SELECT DISTINCT new_announcement_id, course_id
+  FROM unnest(p_course_ids) AS course_id;
+
+  SELECT full_name INTO author_name
+  FROM profiles
+  WHERE id = auth.uid();
+
+  -- A student in several of the courses hears about it once, for the first course by code
+  FOR course_record IN
+    SELECT id, title, course_code
+    FROM courses
+    WHERE id = ANY(p_course_ids)
+    ORDER BY course_code
+  LOOP
+    INSERT INTO notifications (
+      recipient_id,
+      announcement_id,
+      email,
+      status,
+      scheduled_for,
+      kind,
+      payload,
+      channels
+    )
+    SELECT
+      e.student_id,
+      new_announcement_id,
+      COALESCE(ep.notification_email, p.notification_email, p.email),
+      'pending',
+      publish_time,
+      'announcement',
+      jsonb_build_object(
+        'title', trim(p_title),
+        'body', trim(p_body),
+        'author_name', COALESCE(author_name, 'Your lecturer'),
+        'course_id', course_record.id,
+        'course_title', course_record.title,
+        'course_code', course_record.course_code
+      ),
+      nc.channels
+    FROM enrollments e
+    JOIN profiles p ON p.id = e.student_id
+    LEFT JOIN email_preferences ep ON ep.user_id = e.student_id
+    JOIN notification_channels_for(
+      ARRAY(SELECT student_id FROM enrollments WHERE course_id = course_record.id AND is_active = true),
+      'announcement',
+      course_record.id
+    ) nc ON nc.user_id = e.student_id
+    WHERE e.course_id = course_record.id
+      AND e.is_active = true
+      AND cardinality(nc.channels) > 0
+    ON CONFLICT (idempotency_key) DO NOTHING;
+  END LOOP;
+
+  RETURN new_announcement_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION publish_announcement(text, text, uuid[], boolean, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION publish_announcement(text, text, uuid[], boolean, timestamptz) TO authenticated;
+
+CREATE OR REPLACE FUNCTION apply_email_unsubscribe(p_user_id uuid, p_kind text, p_course_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF p_course_id IS NULL THEN
+    INSERT INTO notification_preferences (user_id, kind, channel, enabled, updated_at)
+    VALUES (p_user_id, p_kind, 'email', false, NOW())
+    ON CONFLICT (user_id, kind, channel) DO UPDATE
+    SET enabled = false,
+        updated_at = NOW();
+
+    UPDATE notifications
+    SET channels = array_remove(channels, 'email')
+    WHERE recipient_id = p_user_id
+      AND status IN ('pending', 'failed')
+      AND (kind = p_kind OR (p_kind = 'reminder' AND kind = 'manual'));
+  ELSE
+    INSERT INTO course_email_unsubscribes (user_id, course_id)
+    VALUES (p_user_id, p_course_id)
+    ON CONFLICT (user_id, course_id) DO NOTHING;
+
+    UPDATE notifications n
+    SET channels = array_remove(n.channels, 'email')
+    FROM lectures l
+    WHERE n.lecture_id = l.id
+      AND l.course_id = p_course_id
+      AND n.recipient_id = p_user_id
+      AND n.status IN ('pending', 'failed');
+
+    -- Announcements have no lecture; their course is in the payload
+    UPDATE notifications
+    SET channels = array_remove(channels, 'email')
+    WHERE kind = 'announcement'
+      AND payload->>'course_id' = p_course_id::text
+      AND recipient_id = p_user_id
+      AND status IN ('pending', 'failed');
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_email_unsubscribe(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
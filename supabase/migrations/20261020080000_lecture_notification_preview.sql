@@ -0,0 +1,151 @@
+/*
+  # Preview who a lecture will notify
+
+  Lecturers couldn't tell who would be emailed, at which address or when
+  until a lecture was saved. The lecture form and lecture card now show a
+  dry run that applies the same rules as the lecture triggers and
+  `queue_lecture_reminders`, without writing anything.
+
+  1. New Functions
+    - `preview_lecture_notifications(course_id, scheduled_at, lecture_id)` -
+      one row per notification each enrolled student would get: the
+      scheduled or rescheduled notice and each reminder. Leave out
+      `lecture_id` for a new lecture. Rows that would not be delivered say
+      why in `skipped_reason`.
+      - `email_source` is where the address came from: `preferences`
+        (`email_preferences.notification_email`), `profile`
+        (`profiles.notification_email`) or `account` (`profiles.email`)
+      - `email_suppressed` is set when the address bounced or complained;
+        email is then left out of `channels`
+
+  2. Security
+    - Only the course's lecturer or an admin can preview it; anonymous
+      callers cannot run the function at all
+*/
+
+CREATE OR REPLACE FUNCTION preview_lecture_notifications(
+  p_course_id uuid,
+  p_scheduled_at timestamptz,
+  p_lecture_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  recipient_id uuid,
+  full_name text,
+  email text,
+  email_source text,
+  email_suppressed boolean,
+  kind text,
+  offset_minutes integer,
+  send_at timestamptz,
+  channels text[],
+  skipped_reason text
+) AS $$
+#variable_conflict use_column
+DECLARE
+  student_record RECORD;
+  current_scheduled_at TIMESTAMPTZ;
+  notice_kind TEXT;
+  wanted_channels TEXT[];
+  reminder_channels TEXT[];
+  skip_day_before BOOLEAN;
+  lead_minutes INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM courses WHERE id = p_course_id AND lecturer_id = auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only the course lecturer can preview its notifications';
+  END IF;
+
+  IF p_lecture_id IS NOT NULL THEN
+    SELECT scheduled_at INTO current_scheduled_at
+    FROM lectures
+    WHERE id = p_lecture_id AND course_id = p_course_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Lecture not found';
+    END IF;
+  END IF;
+
+  -- Saving an existing lecture at the same time sends no notice, only the reminders
+  notice_kind := CASE
+    WHEN p_lecture_id IS NULL THEN 'scheduled'
+    WHEN current_scheduled_at IS DISTINCT FROM p_scheduled_at THEN 'rescheduled'
+  END;
+
+  FOR student_record IN
+    SELECT
+      e.student_id,
+      p.full_name AS student_name,
+      COALESCE(ep.notification_email, p.notification_email, p.email) AS address,
+      CASE
+        WHEN ep.notification_email IS NOT NULL THEN 'preferences'
+        WHEN p.notification_email IS NOT NULL THEN 'profile'
+        ELSE 'account'
+      END AS address_source,
+      COALESCE(ep.digest_replaces_reminders, false) AS digest_replaces_reminders
+    FROM enrollments e
+    JOIN profiles p ON p.id = e.student_id
+    LEFT JOIN email_preferences ep ON ep.user_id = e.student_id
+    WHERE e.course_id = p_course_id
+      AND e.is_active = true
+    ORDER BY p.full_name, p.email
+  LOOP
+    recipient_id := student_record.student_id;
+    full_name := student_record.student_name;
+    email := student_record.address;
+    email_source := student_record.address_source;
+    email_suppressed := EXISTS (
+      SELECT 1 FROM suppressed_addresses sa WHERE sa.email = lower(student_record.address)
+    );
+
+    IF notice_kind IS NOT NULL THEN
+      SELECT nc.channels INTO wanted_channels
+      FROM notification_channels_for(ARRAY[student_record.student_id], notice_kind, p_course_id) nc;
+
+      kind := notice_kind;
+      offset_minutes := NULL;
+      send_at := NOW();
+      channels := CASE WHEN email_suppressed THEN array_remove(wanted_channels, 'email') ELSE wanted_channels END;
+      skipped_reason := CASE
+        WHEN cardinality(wanted_channels) = 0 THEN 'Turned off ' || notice_kind || ' notifications'
+        WHEN cardinality(channels) = 0 THEN 'Email suppressed after a bounce or complaint'
+      END;
+      RETURN NEXT;
+    END IF;
+
+    SELECT nc.channels INTO reminder_channels
+    FROM notification_channels_for(ARRAY[student_record.student_id], 'reminder', p_course_id) nc;
+
+    kind := 'reminder';
+
+    IF cardinality(reminder_channels) = 0 THEN
+      offset_minutes := NULL;
+      send_at := NULL;
+      channels := '{}';
+      skipped_reason := 'Turned off reminders';
+      RETURN NEXT;
+      CONTINUE;
+    END IF;
+
+    skip_day_before := student_record.digest_replaces_reminders AND EXISTS (
+      SELECT 1 FROM notification_channels_for(ARRAY[student_record.student_id], 'digest') nc
+      WHERE cardinality(nc.channels) > 0
+    );
+
+    FOREACH lead_minutes IN ARRAY reminder_offsets_for(student_record.student_id)
+    LOOP
+      offset_minutes := lead_minutes;
+      send_at := p_scheduled_at - make_interval(mins => lead_minutes);
+      channels := CASE WHEN email_suppressed THEN array_remove(reminder_channels, 'email') ELSE reminder_channels END;
+      skipped_reason := CASE
+        WHEN send_at <= NOW() THEN 'Lead time has already passed'
+        WHEN lead_minutes = 1440 AND skip_day_before THEN 'Covered by the morning digest'
+        WHEN cardinality(channels) = 0 THEN 'Email suppressed after a bounce or complaint'
+      END;
+      RETURN NEXT;
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION preview_lecture_notifications(uuid, timestamptz, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION preview_lecture_notifications(uuid, timestamptz, uuid) TO authenticated;
@@ -0,0 +1,182 @@
+/*
+  # Notification lifecycle events
+
+  A notification only kept its final `status` and `error_message`, so there
+  was no telling when it was claimed, how many attempts it took or what the
+  provider said. Every step is now appended to `notification_events`, and
+  admins can open a notification's timeline from the delivery console.
+
+  1. New Tables
+    - `notification_events` - append-only log, one row per step:
+      - `queued` - created, or put back in the queue by an admin
+      - `claimed` - picked up by a worker (`attempt` is the attempt number)
+      - `attempted` - one channel tried; written by `process-notifications`
+        with the provider's message id and response
+      - `sent` / `failed` - the attempt's outcome; `failed` covers retries and
+        giving up (`payload.will_retry`)
+      - `superseded` - withdrawn before sending (rescheduled or cancelled
+        lecture); `detail` says which
+      - `opened` - read in the app, or opened in the email client when the
+        provider reports it
+
+  2. Changes
+    - `notifications.provider_message_id` - the email provider's id for the
+      message that went out, so open reports can be matched back to it
+
+  3. New Functions
+    - `record_notification_status_event()` - trigger that logs status changes,
+      claims and in-app reads
+    - `record_email_open(provider_message_id, payload)` - logs an `opened`
+      event for the notification sent with that id
+
+  4. Security
+    - RLS on `notification_events`; admins can read it
+    - Only the service role writes events; updates are refused, and events
+      are only deleted along with their notification
+*/
+
+CREATE TABLE IF NOT EXISTS notification_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id uuid NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+  event text NOT NULL CHECK (event IN ('queued', 'claimed', 'attempted', 'sent', 'failed', 'superseded', 'opened')),
+  channel text CHECK (channel IN ('email', 'sms', 'push', 'in_app')),
+  attempt integer,
+  provider_message_id text,
+  payload jsonb NOT NULL DEFAULT '{}',
+  detail text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_events_notification
+  ON notification_events(notification_id, created_at);
+
+ALTER TABLE notification_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view notification events"
+  ON notification_events FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS provider_message_id text;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_provider_message_id
+  ON notifications(provider_message_id)
+  WHERE provider_message_id IS NOT NULL;
+
+-- The cascade from a deleted notification runs after its row is gone
+CREATE OR REPLACE FUNCTION reject_notification_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' OR EXISTS (SELECT 1 FROM notifications WHERE id = OLD.notification_id) THEN
+    RAISE EXCEPTION 'Notification events are append-only';
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS notification_events_append_only ON notification_events;
+CREATE TRIGGER notification_events_append_only
+  BEFORE UPDATE OR DELETE ON notification_events
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_notification_event_changes();
+
+CREATE OR REPLACE FUNCTION record_notification_status_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO notification_events (notification_id, event, payload)
+    VALUES (
+      NEW.id,
+      'queued',
+      jsonb_build_object('kind', NEW.kind, 'email', NEW.email, 'channels', NEW.channels, 'scheduled_for', NEW.scheduled_for)
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.read_at IS NOT NULL AND OLD.read_at IS NULL THEN
+    INSERT INTO notification_events (notification_id, event, channel)
+    VALUES (NEW.id, 'opened', 'in_app');
+  END IF;
+
+  -- An expired lease is reclaimed without leaving `processing`, so a new worker counts too
+  IF NEW.status = 'processing' AND (
+    OLD.status IS DISTINCT FROM 'processing' OR OLD.claimed_by IS DISTINCT FROM NEW.claimed_by
+  ) THEN
+    INSERT INTO notification_events (notification_id, event, attempt, payload)
+    VALUES (
+      NEW.id,
+      'claimed',
+      NEW.attempts,
+      jsonb_build_object('worker', NEW.claimed_by, 'locked_until', NEW.locked_until)
+    );
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'pending' THEN
+    INSERT INTO notification_events (notification_id, event, detail, payload)
+    VALUES (
+      NEW.id,
+      'queued',
+      NEW.status_reason,
+      jsonb_build_object('previous_status', OLD.status, 'scheduled_for', NEW.scheduled_for)
+    );
+  ELSIF NEW.status = 'sent' THEN
+    INSERT INTO notification_events (notification_id, event, attempt, provider_message_id, detail, payload)
+    VALUES (
+      NEW.id,
+      'sent',
+      NEW.attempts,
+      NEW.provider_message_id,
+      NEW.status_reason,
+      jsonb_build_object('channels', NEW.channels, 'sent_at', NEW.sent_at)
+    );
+  ELSIF NEW.status IN ('failed', 'dead') THEN
+    INSERT INTO notification_events (notification_id, event, attempt, detail, payload)
+    VALUES (
+      NEW.id,
+      'failed',
+      NEW.attempts,
+      NEW.error_message,
+      jsonb_build_object('will_retry', NEW.status = 'failed', 'next_attempt_at', NEW.next_attempt_at)
+    );
+  ELSIF NEW.status IN ('superseded', 'cancelled') THEN
+    INSERT INTO notification_events (notification_id, event, detail, payload)
+    VALUES (NEW.id, 'superseded', NEW.status_reason, jsonb_build_object('status', NEW.status));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notification_status_event_trigger ON notifications;
+CREATE TRIGGER notification_status_event_trigger
+  AFTER INSERT OR UPDATE OF status, claimed_by, read_at ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION record_notification_status_event();
+
+CREATE OR REPLACE FUNCTION record_email_open(
+  p_provider_message_id text,
+  p_payload jsonb DEFAULT '{}'
+)
+RETURNS integer AS $$
+DECLARE
+  recorded INTEGER;
+BEGIN
+  INSERT INTO notification_events (notification_id, event, channel, provider_message_id, payload)
+  SELECT id, 'opened', 'email', p_provider_message_id, COALESCE(p_payload, '{}')
+  FROM notifications
+  WHERE provider_message_id = p_provider_message_id;
+
+  GET DIAGNOSTICS recorded = ROW_COUNT;
+  RETURN recorded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_notification_status_event() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_email_open(text, jsonb) FROM PUBLIC, anon, authenticated;